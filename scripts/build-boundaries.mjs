@@ -0,0 +1,167 @@
+// Builds the simplified boundary files in public/boundaries. Countries and
+// their first-level divisions come from the amCharts geodata package, and UK
+// counties from the Natural Earth data shipped with datamaps. The packages are
+// several hundred megabytes, so they aren't dependencies; install them just
+// for the run:
+//
+//   npm install --no-save @amcharts/amcharts4-geodata@4.1.32 datamaps@0.5.10
+//   npm run build:boundaries
+//
+// amCharts geodata is released under a linkware licence, which is copied
+// next to the output and credited in the map attribution. Natural Earth is
+// in the public domain.
+import { copyFileSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const geodata = join(root, 'node_modules/@amcharts/amcharts4-geodata');
+const naturalEarth = join(root, 'node_modules/datamaps/src/js/data');
+const output = join(root, 'public/boundaries');
+
+// Countries whose first-level divisions are bundled. Every country gets an
+// outline; add codes here as the datasets reach new countries.
+const REGION_COUNTRIES = [
+  'AE', 'AT', 'AU', 'BE', 'CA', 'CH', 'CN', 'DE', 'DK', 'ES', 'FI', 'FR', 'GB', 'HK', 'IE',
+  'IT', 'JP', 'KR', 'MY', 'NL', 'NO', 'NZ', 'PL', 'PT', 'SE', 'SG', 'US',
+];
+
+// The default UK map splits England into regions; parks are listed by nation
+const MAP_OVERRIDES = { GB: 'ukCountriesLow' };
+
+// Natural Earth's UK counties date from 2010 and have a few mistakes
+const COUNTY_NAMES = {
+  City: 'City of London',
+  Merseyside: 'St Helens',
+  'North Ayshire': 'North Ayrshire',
+  'Perthshire and Kinross': 'Perth and Kinross',
+};
+
+// Northern Ireland is split into its old districts, which are listed under
+// the county most of each one lies in
+const NORTHERN_IRELAND_COUNTIES = {
+  'County Antrim': ['Antrim', 'Ballymena', 'Ballymoney', 'Belfast', 'Carrickfergus', 'Larne', 'Lisburn', 'Moyle', 'Newtownabbey'],
+  'County Armagh': ['Armagh', 'Craigavon'],
+  'County Down': ['Ards', 'Banbridge', 'Castlereagh', 'Down', 'Newry and Mourne', 'North Down'],
+  'County Fermanagh': ['Fermanagh'],
+  'County Londonderry': ['Coleraine', 'Derry', 'Limavady', 'Magherafelt'],
+  'County Tyrone': ['Cookstown', 'Dungannon', 'Omagh', 'Strabane'],
+};
+
+// Degrees. Country borders can be coarser than the divisions inside them,
+// and UK counties include London boroughs only a few kilometres across.
+const COUNTRY_TOLERANCE = 0.02;
+const REGION_TOLERANCE = 0.01;
+const COUNTY_TOLERANCE = 0.005;
+const PRECISION = 1000;
+
+function readJson(path) {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function readMap(name) {
+  return readJson(join(geodata, 'json', `${name}.json`));
+}
+
+function distanceToSegment([x, y], [x0, y0], [x1, y1]) {
+  const dx = x1 - x0;
+  const dy = y1 - y0;
+  const length = dx * dx + dy * dy;
+  const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((x - x0) * dx + (y - y0) * dy) / length));
+  return Math.hypot(x - (x0 + t * dx), y - (y0 + t * dy));
+}
+
+// Douglas-Peucker, keeping the first and last positions of the line
+function simplifyLine(line, tolerance) {
+  if (line.length < 3) return line;
+
+  let furthest = 0;
+  let index = 0;
+  for (let i = 1; i < line.length - 1; i++) {
+    const distance = distanceToSegment(line[i], line[0], line[line.length - 1]);
+    if (distance > furthest) {
+      furthest = distance;
+      index = i;
+    }
+  }
+
+  if (furthest <= tolerance) return [line[0], line[line.length - 1]];
+  return [...simplifyLine(line.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyLine(line.slice(index), tolerance)];
+}
+
+const round = (value) => Math.round(value * PRECISION) / PRECISION;
+
+function simplifyRing(ring, tolerance) {
+  // Split the closed ring in two so the fixed end points aren't the same
+  const middle = Math.floor(ring.length / 2);
+  const line = [
+    ...simplifyLine(ring.slice(0, middle + 1), tolerance).slice(0, -1),
+    ...simplifyLine(ring.slice(middle), tolerance),
+  ];
+  return line
+    .map(([x, y]) => [round(x), round(y)])
+    .filter(([x, y], i, all) => i === 0 || x !== all[i - 1][0] || y !== all[i - 1][1]);
+}
+
+// Rings that collapse below a triangle are dropped, along with the whole
+// polygon when it's the outer ring. Lookups fall back to the nearest
+// boundary for points on islands too small to survive.
+function simplifyGeometry(geometry, tolerance) {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const kept = polygons
+    .map((rings) => rings.map((ring) => simplifyRing(ring, tolerance)))
+    .filter((rings) => rings[0].length >= 4)
+    .map((rings) => rings.filter((ring) => ring.length >= 4));
+
+  if (kept.length === 0) return null;
+  return kept.length === 1 ? { type: 'Polygon', coordinates: kept[0] } : { type: 'MultiPolygon', coordinates: kept };
+}
+
+function feature(properties, geometry, tolerance) {
+  const simplified = simplifyGeometry(geometry, tolerance);
+  return simplified && { type: 'Feature', properties, geometry: simplified };
+}
+
+function writeCollection(filename, features) {
+  const collection = { type: 'FeatureCollection', features: features.filter(Boolean) };
+  writeFileSync(join(output, filename), `${JSON.stringify(collection)}\n`);
+  console.log(`${filename}: ${collection.features.length} features`);
+}
+
+const countryNames = new Map();
+const countries = readMap('worldLow').features.map(({ properties, geometry }) => {
+  countryNames.set(properties.id, properties.name);
+  return feature({ code: properties.id, name: properties.name }, geometry, COUNTRY_TOLERANCE);
+});
+
+const maps = readMap('data/countries2');
+const regions = REGION_COUNTRIES.flatMap((country) => {
+  const map = MAP_OVERRIDES[country] ?? maps[country].maps[0];
+
+  // Some maps include neighbouring territory, such as Corsica on Italy's
+  return readMap(map)
+    .features.filter(({ properties }) => properties.id.startsWith(`${country}-`))
+    .map(({ properties, geometry }) =>
+      feature({ code: properties.id, name: properties.name, country: countryNames.get(country) }, geometry, REGION_TOLERANCE),
+    );
+});
+
+const districtCounties = new Map(
+  Object.entries(NORTHERN_IRELAND_COUNTIES).flatMap(([county, districts]) => districts.map((district) => [district, county])),
+);
+const counties = readJson(join(naturalEarth, 'gbr.json')).features.map(({ properties, geometry }) => {
+  const name = COUNTY_NAMES[properties.name] ?? properties.name;
+  const nation = properties.geonunit ?? 'England';
+
+  return feature(
+    { code: properties.adm1_code, name: nation === 'Northern Ireland' ? districtCounties.get(name) : name, country: nation },
+    geometry,
+    COUNTY_TOLERANCE,
+  );
+});
+
+mkdirSync(output, { recursive: true });
+writeCollection('countries.json', countries);
+writeCollection('regions.json', regions);
+writeCollection('uk-counties.json', counties);
+copyFileSync(join(geodata, 'LICENSE'), join(output, 'LICENSE'));
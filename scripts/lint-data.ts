@@ -0,0 +1,261 @@
+// Checks the point CSVs in public/, and the parkrun event details, for
+// problems the loaders would skip over or get wrong, printing a report
+// followed by a JSON summary. Exits with 1 when any file has errors.
+//
+//   npm run lint:data                     every public/*.csv
+//   npm run lint:data -- public/foo.csv   just the files given
+//   npm run lint:data -- --json           only the JSON summary
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import type { ZodTypeAny } from 'zod';
+import { DatasetFormatError, sniffPayload } from '@/lib/csv';
+import { parseCourseCsv } from '@/lib/courses';
+import { applyEventDetails, type EventDetailsList } from '@/lib/event-details';
+import { parseEventStatusCsv } from '@/lib/event-status';
+import { haversineDistance, KM_PER_DEGREE } from '@/lib/geometry';
+import { PARKRUN_CSV_URL, parseParkrunCsv } from '@/lib/parkruns';
+import { inBounds, parkrunEventSchema, themeParkSchema, UK_BOUNDS } from '@/lib/schemas';
+import { parseThemeParkCsv } from '@/lib/theme-parks';
+import type { DatasetLoadResult, MapPoint, ParkrunEvent, ThemePark } from '@/lib/types';
+import { validateDataset } from '@/lib/validation';
+
+// Points closer than this to another of the same kind are probably one
+// place entered twice
+const NEAR_DUPLICATE_KM = 0.05;
+// The parkrun export cuts text fields off at this many characters
+const TRUNCATED_LENGTH = 40;
+
+type Severity = 'error' | 'warning';
+
+interface Problem {
+  row: number;
+  severity: Severity;
+  check: string;
+  message: string;
+}
+
+interface FileSummary {
+  file: string;
+  format: string | null;
+  rows: number;
+  errors: number;
+  warnings: number;
+  problems: Problem[];
+}
+
+interface CsvFormat<T extends MapPoint> {
+  id: string;
+  matches(text: string): boolean;
+  parse(text: string, file: string): DatasetLoadResult<T>;
+  schema: ZodTypeAny;
+  // Free text the export may have cut short
+  textFields(record: T): Record<string, string>;
+  // Only records of the same kind count as near-duplicates, so a junior
+  // event next to its 5k event is fine
+  kind(record: T): string;
+  outsideUk?: boolean;
+}
+
+const headerOf = (text: string) => text.replace(/^\uFEFF/, '').split(/\r?\n/)[0].trim().toLowerCase();
+
+const parkrunFormat: CsvFormat<ParkrunEvent> = {
+  id: 'parkruns',
+  matches: () => true,
+  parse: (text) => parseParkrunCsv(text),
+  schema: parkrunEventSchema,
+  textFields: (parkrun) => ({ name: parkrun.name, location: parkrun.venue }),
+  kind: (parkrun) => parkrun.eventType,
+  outsideUk: true,
+};
+
+const themeParkFormat: CsvFormat<ThemePark> = {
+  id: 'themeParks',
+  matches: (text) => /(^|,)\s*"?wkt"?\s*(,|$)/i.test(headerOf(text)),
+  parse: parseThemeParkCsv,
+  schema: themeParkSchema,
+  textFields: (park) => ({ name: park.name }),
+  kind: () => 'themePark',
+};
+
+// Tried in order; the headerless parkrun layout is the fallback
+const formats: CsvFormat<MapPoint>[] = [themeParkFormat, parkrunFormat];
+
+// Files adding details to parkrun events by id, told apart by their header
+interface EventDetailsFormat {
+  id: string;
+  header: RegExp;
+  parse(text: string, file: string): EventDetailsList<Partial<ParkrunEvent>>;
+}
+
+const eventDetailsFormats: EventDetailsFormat[] = [
+  { id: 'eventStatuses', header: /^id,\s*status\b/, parse: parseEventStatusCsv },
+  { id: 'courses', header: /^id,\s*surface\b/, parse: parseCourseCsv },
+];
+
+// Event details aren't points, so they're checked on their own against the
+// event ids in uk-parkruns.csv
+function lintEventDetails(format: EventDetailsFormat, text: string, file: string): { rows: number; problems: Problem[] } {
+  const list = format.parse(text, file);
+  const events = parseParkrunCsv(readFileSync(join(process.cwd(), 'public', PARKRUN_CSV_URL), 'utf8'));
+  const { issues } = applyEventDetails({ rows: events.rows, issues: [] }, list);
+
+  return {
+    rows: list.details.size,
+    problems: issues
+      .map((issue): Problem => ({
+        row: issue.row,
+        severity: 'error',
+        check: issue.reason.startsWith('No event') ? 'unknown-event' : 'invalid-details',
+        message: issue.reason,
+      }))
+      .sort((a, b) => a.row - b.row),
+  };
+}
+
+const normalise = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+function lintRecords<T extends MapPoint>(format: CsvFormat<T>, result: DatasetLoadResult<T>): Problem[] {
+  const problems: Problem[] = validateDataset(format.id, format.schema, result).report.issues.map((issue) => ({
+    row: issue.row,
+    severity: 'error',
+    check: issue.field === 'record' ? 'unreadable-row' : 'invalid-field',
+    message: issue.field === 'record' ? issue.reason : `${issue.field}: ${issue.reason}`,
+  }));
+
+  const firstRows = new Map<string, number>();
+  result.rows.forEach(({ row, record }) => {
+    const name = normalise(record.name);
+    const first = firstRows.get(name);
+    if (first !== undefined) {
+      problems.push({ row, severity: 'error', check: 'duplicate-name', message: `"${record.name}" is also on row ${first}` });
+    } else {
+      firstRows.set(name, row);
+    }
+
+    Object.entries(format.textFields(record)).forEach(([field, value]) => {
+      if (value.length === TRUNCATED_LENGTH) {
+        problems.push({
+          row,
+          severity: 'warning',
+          check: 'truncated-text',
+          message: `${field} "${value}" is exactly ${TRUNCATED_LENGTH} characters and may have been cut off`,
+        });
+      }
+    });
+
+    const { latitude, longitude } = record;
+    // Swapped coordinates are already reported by the schema
+    if (
+      format.outsideUk && Number.isFinite(latitude) && Number.isFinite(longitude) &&
+      !inBounds(latitude, longitude, UK_BOUNDS) && !inBounds(longitude, latitude, UK_BOUNDS)
+    ) {
+      problems.push({
+        row,
+        severity: 'warning',
+        check: 'outside-uk',
+        message: `${latitude}, ${longitude} is outside the UK bounding box`,
+      });
+    }
+  });
+
+  // Sorted by latitude so each point is only compared with close neighbours
+  const located = result.rows
+    .filter(({ record }) => Number.isFinite(record.latitude) && Number.isFinite(record.longitude))
+    .sort((a, b) => a.record.latitude - b.record.latitude);
+  const window = NEAR_DUPLICATE_KM / KM_PER_DEGREE;
+  located.forEach((a, i) => {
+    for (let j = i + 1; j < located.length && located[j].record.latitude - a.record.latitude <= window; j++) {
+      const b = located[j];
+      if (format.kind(a.record) !== format.kind(b.record)) continue;
+
+      const distance = haversineDistance(
+        [a.record.longitude, a.record.latitude],
+        [b.record.longitude, b.record.latitude],
+      );
+      if (distance <= NEAR_DUPLICATE_KM) {
+        const [first, second] = a.row < b.row ? [a, b] : [b, a];
+        problems.push({
+          row: second.row,
+          severity: 'warning',
+          check: 'near-duplicate',
+          message: `"${second.record.name}" is ${Math.round(distance * 1000)}m from "${first.record.name}" on row ${first.row}`,
+        });
+      }
+    }
+  });
+
+  return problems.sort((a, b) => a.row - b.row);
+}
+
+function lintFile(file: string): FileSummary {
+  const name = relative(process.cwd(), file);
+  const text = readFileSync(file, 'utf8');
+  const summary = (format: string | null, rows: number, problems: Problem[]): FileSummary => ({
+    file: name,
+    format,
+    rows,
+    errors: problems.filter(({ severity }) => severity === 'error').length,
+    warnings: problems.filter(({ severity }) => severity === 'warning').length,
+    problems,
+  });
+
+  const kind = sniffPayload(text);
+  if (kind !== 'csv') {
+    return summary(null, 0, [{
+      row: 0,
+      severity: 'error',
+      check: 'not-csv',
+      message: `looks like ${kind === 'empty' ? 'an empty file' : kind}, not CSV`,
+    }]);
+  }
+
+  const details = eventDetailsFormats.find(({ header }) => header.test(headerOf(text)));
+  if (details) {
+    const { rows, problems } = lintEventDetails(details, text, name);
+    return summary(details.id, rows, problems);
+  }
+
+  const format = formats.find((candidate) => candidate.matches(text));
+  try {
+    const result = format.parse(text, name);
+    return summary(format.id, result.rows.length, lintRecords(format, result));
+  } catch (error) {
+    if (!(error instanceof DatasetFormatError)) throw error;
+    return summary(format.id, 0, [{ row: 0, severity: 'error', check: 'bad-format', message: error.message }]);
+  }
+}
+
+function printReport(summaries: FileSummary[]) {
+  summaries.forEach(({ file, format, rows, problems }) => {
+    console.log(`${file} (${format ?? 'unknown format'}, ${rows} rows)`);
+    problems.forEach(({ row, severity, check, message }) => {
+      console.log(`  ${severity.padEnd(7)}  ${(row > 0 ? `row ${row}` : 'file').padEnd(9)}  ${check.padEnd(15)}  ${message}`);
+    });
+    if (problems.length === 0) console.log('  no problems');
+    console.log();
+  });
+}
+
+const args = process.argv.slice(2);
+const jsonOnly = args.includes('--json');
+const files = args.filter((arg) => arg !== '--json');
+const publicDir = join(process.cwd(), 'public');
+const targets = files.length > 0
+  ? files
+  : readdirSync(publicDir).filter((file) => file.endsWith('.csv')).sort().map((file) => join(publicDir, file));
+
+const summaries = targets.map(lintFile);
+const totals = {
+  errors: summaries.reduce((sum, { errors }) => sum + errors, 0),
+  warnings: summaries.reduce((sum, { warnings }) => sum + warnings, 0),
+};
+
+if (!jsonOnly) {
+  printReport(summaries);
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  console.log(`${plural(totals.errors, 'error')}, ${plural(totals.warnings, 'warning')}`);
+  console.log();
+}
+console.log(JSON.stringify({ ...totals, files: summaries }, null, 2));
+
+process.exitCode = totals.errors > 0 ? 1 : 0;
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  detectHeader,
+  guessMapping,
+  mapCsvRows,
+  type ColumnMapping,
+  type CsvTable,
+  type MappedField,
+} from "@/lib/csv-import";
+import { createCustomDataset, type DatasetDefinition } from "@/lib/datasets";
+
+const COLOURS = ["#dc2626", "#ea580c", "#ca8a04", "#7c3aed", "#db2777", "#0891b2", "#4b5563"];
+
+const PREVIEW_ROWS = 5;
+
+const NONE = "none";
+
+type CoordinateSource = "latlng" | "wkt";
+
+const FIELDS: Record<CoordinateSource, { field: MappedField; label: string; required: boolean }[]> = {
+  latlng: [
+    { field: "name", label: "Name", required: true },
+    { field: "latitude", label: "Latitude", required: true },
+    { field: "longitude", label: "Longitude", required: true },
+    { field: "description", label: "Description", required: false },
+  ],
+  wkt: [
+    { field: "name", label: "Name", required: true },
+    { field: "wkt", label: "WKT geometry", required: true },
+    { field: "description", label: "Description", required: false },
+  ],
+};
+
+interface CsvImportDialogProps {
+  table: CsvTable | null;
+  onOpenChange: (open: boolean) => void;
+  onImport: (dataset: DatasetDefinition) => void;
+}
+
+export function CsvImportDialog({ table, onOpenChange, onImport }: CsvImportDialogProps) {
+  const [hasHeader, setHasHeader] = useState(false);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [coordinateSource, setCoordinateSource] = useState<CoordinateSource>("latlng");
+  const [label, setLabel] = useState("");
+  const [colour, setColour] = useState(COLOURS[0]);
+
+  // Start every file from a fresh guess
+  useEffect(() => {
+    if (!table) return;
+
+    const header = detectHeader(table.rows);
+    const guessed = guessMapping(table.rows, header);
+    setHasHeader(header);
+    setMapping(guessed);
+    setCoordinateSource(guessed.wkt !== undefined ? "wkt" : "latlng");
+    setLabel(table.filename.replace(/\.[^.]+$/, ""));
+  }, [table]);
+
+  const columnCount = useMemo(
+    () => Math.max(0, ...(table?.rows ?? []).map((row) => row.length)),
+    [table],
+  );
+
+  if (!table) return null;
+
+  const columnName = (index: number) =>
+    hasHeader && table.rows[0][index]?.trim() ? table.rows[0][index].trim() : `Column ${index + 1}`;
+  const fields = FIELDS[coordinateSource];
+  const preview = table.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+  const ready = label.trim() !== "" && fields.every(({ field, required }) => !required || mapping[field] !== undefined);
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(guessMapping(table.rows, checked));
+  };
+
+  const handleImport = () => {
+    const used: ColumnMapping = {};
+    fields.forEach(({ field }) => {
+      if (mapping[field] !== undefined) used[field] = mapping[field];
+    });
+
+    onImport(createCustomDataset(label.trim(), colour, mapCsvRows(table.rows, used, hasHeader)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import {table.filename}</DialogTitle>
+          <DialogDescription>
+            {table.rows.length - (hasHeader ? 1 : 0)} rows. Choose which columns hold each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-48 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {Array.from({ length: columnCount }, (_, index) => {
+                  const field = fields.find(({ field }) => mapping[field] === index);
+
+                  return (
+                    <TableHead key={index} className="whitespace-nowrap">
+                      {columnName(index)}
+                      {field && <span className="ml-1 text-xs text-primary">→ {field.label}</span>}
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <TableCell key={index} className="py-2 whitespace-nowrap">{row[index]}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          <Switch id="csv-header" checked={hasHeader} onCheckedChange={handleHeaderChange} />
+          <Label htmlFor="csv-header">First row is a header</Label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Coordinates</Label>
+            <Select value={coordinateSource} onValueChange={(value) => setCoordinateSource(value as CoordinateSource)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="latlng">Latitude and longitude columns</SelectItem>
+                <SelectItem value="wkt">WKT column</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fields.map(({ field, label: fieldLabel, required }) => (
+            <div key={field} className="space-y-2">
+              <Label>{fieldLabel}{required ? "" : " (optional)"}</Label>
+              <Select
+                value={mapping[field] === undefined ? NONE : String(mapping[field])}
+                onValueChange={(value) =>
+                  setMapping((current) => ({ ...current, [field]: value === NONE ? undefined : Number(value) }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not mapped</SelectItem>
+                  {Array.from({ length: columnCount }, (_, index) => (
+                    <SelectItem key={index} value={String(index)}>{columnName(index)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="csv-layer-name">Layer name</Label>
+            <Input id="csv-layer-name" value={label} onChange={(event) => setLabel(event.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Colour</Label>
+            <div className="flex items-center gap-2">
+              {COLOURS.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  aria-label={`Use colour ${swatch}`}
+                  onClick={() => setColour(swatch)}
+                  className={`h-6 w-6 rounded-full border-2 ${colour === swatch ? "border-foreground" : "border-white"}`}
+                  style={{ background: swatch }}
+                />
+              ))}
+              <input
+                type="color"
+                aria-label="Custom colour"
+                value={colour}
+                onChange={(event) => setColour(event.target.value)}
+                className="h-6 w-8 cursor-pointer rounded border-0 bg-transparent p-0"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!ready}>Add layer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
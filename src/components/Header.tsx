@@ -1,9 +1,10 @@
-import { MapPin, TreePine, Info } from "lucide-react";
+import { Link } from "react-router-dom";
+import { FerrisWheel, MapPin, TreePine, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export function Header() {
   return (
-    <header className="absolute top-0 left-0 right-0 z-[999] bg-gradient-hero border-b border-border/20 backdrop-blur-sm">
+    <header className="absolute top-0 left-0 right-0 z-30 bg-gradient-hero border-b border-border/20 backdrop-blur-sm">
       <div className="container mx-auto px-4 py-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -16,6 +17,12 @@ export function Header() {
           </div>
           
           <div className="flex items-center gap-2">
+            <Button variant="glass" size="sm" asChild>
+              <Link to="/pairings">
+                <FerrisWheel className="w-4 h-4" />
+                Pairings
+              </Link>
+            </Button>
             <Button variant="glass" size="sm">
               <Info className="w-4 h-4" />
               About
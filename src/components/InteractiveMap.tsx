@@ -1,7 +1,19 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Geometry } from 'geojson';
 import L from 'leaflet';
+import 'leaflet.markercluster';
 import 'leaflet/dist/leaflet.css';
-import { toast } from '@/hooks/use-toast';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import { groupColocated } from '@/lib/colocation';
+import { colocationRules, type DatasetDefinition, type PopupContext } from '@/lib/datasets';
+import { createHeatmap, heatmapOptions, type HeatmapSelection } from '@/lib/heatmap';
+import { createClusterIcon, createDotStyle, createGroupIcon, withNewBadge, withNewOutline } from '@/lib/markers';
+import type { NearbyRecord } from '@/lib/proximity';
+import type { Bounds } from '@/lib/schemas';
+import { recordId } from '@/lib/slugs';
+import { indexPoints } from '@/lib/spatial-index';
+import type { MapPoint } from '@/lib/types';
+import { escapeHtml } from '@/lib/xml';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -11,44 +23,222 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-interface ParkrunEvent {
-  id: number;
-  name: string;
+// Shared markers split apart from this zoom level when spiderfying
+const SPIDERFY_ZOOM = 14;
+// Distance in pixels from a shared marker's centre to each spread-out member
+const SPIDER_LEG_LENGTH = 28;
+// Markers this many pixels apart or closer join a cluster
+const CLUSTER_RADIUS = 50;
+// Markers are drawn this far beyond each side of the view, as a share of
+// its size, so short pans don't have to add any
+const VIEWPORT_PADDING = 0.25;
+// Above this many records on the visible layers, points are drawn on a
+// canvas instead of as HTML markers
+export const DEFAULT_CANVAS_THRESHOLD = 3000;
+// Flying to a record zooms in at least this far
+const FOCUS_ZOOM = 13;
+
+// A place to fly to; each new object flies there, even if it hasn't moved
+export interface MapFocus {
   latitude: number;
   longitude: number;
-  country: string;
-  region: string;
-  status: string;
 }
 
-interface ThemePark {
+interface InteractiveMapProps {
+  datasets: DatasetDefinition[];
+  visibility: Record<string, boolean>;
+  records: Record<string, MapPoint[]>;
+  spiderfy: boolean;
+  // Whether dense areas are drawn as numbered clusters
+  clustering: boolean;
+  canvasThreshold?: number;
+  // Records drawn with a "new" badge
+  newRecords?: Set<MapPoint>;
+  // Density shading per dataset, drawn whether or not its points are
+  heatmaps?: HeatmapSelection;
+  // Parkruns listed in each theme park's popup
+  nearbyParkruns?: Map<MapPoint, NearbyRecord[]>;
+  focus?: MapFocus | null;
+}
+
+// Colour of every record a marker stands for, so clusters can show what
+// they're made of
+const markerColours = new WeakMap<L.Layer, string[]>();
+
+// What a record's layers are drawn from. A fresh copy of the record that
+// looks the same keeps the layers it already has.
+interface RecordAppearance {
   name: string;
   latitude: number;
   longitude: number;
-  country: string;
-  state?: string;
+  geometry?: Geometry;
+  popup: string;
+  // An HTML marker's icon, or a canvas dot's style
+  icon?: L.DivIcon;
+  point?: L.CircleMarkerOptions;
 }
 
-interface InteractiveMapProps {
-  showParkruns: boolean;
-  showThemeParks: boolean;
-  onParkrunCountChange: (count: number) => void;
-  onThemeParkCountChange: (count: number) => void;
+interface DrawnRecord extends RecordAppearance {
+  layers: L.Layer[];
+}
+
+const plainPointStyles = new Map<string, L.CircleMarkerOptions>();
+
+function pointStyleOf(dataset: DatasetDefinition, record: MapPoint): L.CircleMarkerOptions {
+  if (dataset.pointStyle) return dataset.pointStyle(record);
+
+  let style = plainPointStyles.get(dataset.colour);
+  if (!style) {
+    style = createDotStyle(dataset.colour);
+    plainPointStyles.set(dataset.colour, style);
+  }
+  return style;
+}
+
+function appearanceOf(
+  dataset: DatasetDefinition,
+  record: MapPoint,
+  isNew = false,
+  canvas = false,
+  context?: PopupContext,
+): RecordAppearance {
+  const appearance = {
+    name: record.name,
+    latitude: record.latitude,
+    longitude: record.longitude,
+    geometry: record.geometry,
+    popup: dataset.renderPopup(record, context),
+  };
+
+  // Icons and styles are shared, so an unchanged record gets the very same one
+  if (canvas) {
+    const point = pointStyleOf(dataset, record);
+    return { ...appearance, point: isNew ? withNewOutline(point) : point };
+  }
+
+  const icon = dataset.iconFor?.(record) ?? dataset.icon;
+  return { ...appearance, icon: isNew ? withNewBadge(icon) : icon };
+}
+
+const sameAppearance = (a: RecordAppearance, b: RecordAppearance) =>
+  a.latitude === b.latitude && a.longitude === b.longitude && a.geometry === b.geometry &&
+  a.popup === b.popup && a.icon === b.icon && a.point === b.point;
+
+// A record whose popup opens once the map has flown to it
+interface PendingPopup {
+  datasetId: string;
+  key: string;
+}
+
+interface DrawnHeatmap {
+  layer: L.HeatLayer;
+  records: MapPoint[];
+}
+
+interface RecordLayerOptions {
+  position?: L.LatLng;
+  // Canvas that dots are drawn on
+  renderer?: L.Renderer;
+}
+
+function createRecordLayers(
+  dataset: DatasetDefinition,
+  appearance: RecordAppearance,
+  { position, renderer }: RecordLayerOptions = {},
+): L.Layer[] {
+  const layers: L.Layer[] = [];
+
+  if (appearance.geometry) {
+    const outline = L.geoJSON(appearance.geometry, {
+      style: { color: dataset.colour, weight: 2, fillOpacity: 0.15 },
+      pointToLayer: (_feature, latlng) => L.circleMarker(latlng, { radius: 4 }),
+    });
+    // Clusters take the outline's shapes out of the group, so each shape
+    // needs the popup itself
+    outline.eachLayer((shape) => shape.bindPopup(appearance.popup));
+    layers.push(outline);
+  }
+
+  const latlng = position ?? L.latLng(appearance.latitude, appearance.longitude);
+  let marker: L.Marker | L.CircleMarker;
+  if (appearance.point) {
+    // The canvas works out which dot is under the pointer, so dots get the
+    // same popups as markers, plus the name on hover
+    marker = L.circleMarker(latlng, { ...appearance.point, renderer });
+    // Leaflet sets a tooltip's content as HTML
+    marker.bindTooltip(escapeHtml(appearance.name));
+  } else {
+    marker = L.marker(latlng, {
+      icon: appearance.icon
+    });
+  }
+
+  marker.bindPopup(appearance.popup);
+  markerColours.set(marker, [dataset.colour]);
+
+  layers.push(marker);
+  return layers;
+}
+
+// Clusters take markers in bulk, which is much faster than one at a time
+function addLayers(container: L.LayerGroup, layers: L.Layer[]) {
+  if (container instanceof L.MarkerClusterGroup) container.addLayers(layers);
+  else layers.forEach((layer) => container.addLayer(layer));
+}
+
+function removeLayers(container: L.LayerGroup, layers: L.Layer[]) {
+  if (container instanceof L.MarkerClusterGroup) container.removeLayers(layers);
+  else layers.forEach((layer) => container.removeLayer(layer));
+}
+
+// Refills a layer group, then puts it straight on the map or spreads its
+// markers through the clusters. Clusters copy a group's markers rather than
+// watching the group, so they're swapped over by hand.
+function redraw(
+  map: L.Map,
+  clusters: L.MarkerClusterGroup,
+  group: L.LayerGroup,
+  clustering: boolean,
+  draw: (group: L.LayerGroup) => void,
+) {
+  clusters.removeLayers(group.getLayers());
+  group.clearLayers();
+  draw(group);
+
+  if (clustering) {
+    map.removeLayer(group);
+    clusters.addLayers(group.getLayers());
+  } else {
+    group.addTo(map);
+  }
 }
 
 export function InteractiveMap({ 
-  showParkruns, 
-  showThemeParks, 
-  onParkrunCountChange, 
-  onThemeParkCountChange 
+  datasets, 
+  visibility, 
+  records,
+  spiderfy,
+  clustering,
+  canvasThreshold = DEFAULT_CANVAS_THRESHOLD,
+  newRecords,
+  heatmaps,
+  nearbyParkruns,
+  focus,
 }: InteractiveMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<L.Map | null>(null);
-  const parkrunLayerGroup = useRef<L.LayerGroup>(new L.LayerGroup());
-  const themeParkLayerGroup = useRef<L.LayerGroup>(new L.LayerGroup());
-  
-  const [parkruns, setParkruns] = useState<ParkrunEvent[]>([]);
-  const [themeParks, setThemeParks] = useState<ThemePark[]>([]);
+  const layerGroups = useRef<Map<string, L.LayerGroup>>(new Map());
+  const groupLayer = useRef<L.LayerGroup | null>(null);
+  const clusters = useRef<L.MarkerClusterGroup | null>(null);
+  // Layers on the map for each dataset's records, by record key
+  const drawn = useRef<Map<string, Map<string, DrawnRecord>>>(new Map());
+  const canvasRenderer = useRef<L.Canvas | null>(null);
+  // How the drawn layers were drawn: into the clusters or not, on the canvas or not
+  const drawnMode = useRef({ clustered: false, canvas: false });
+  const drawnHeatmaps = useRef<Map<string, DrawnHeatmap>>(new Map());
+  const pendingPopup = useRef<PendingPopup | null>(null);
+  const [zoom, setZoom] = useState(6);
+  const [viewport, setViewport] = useState<Bounds | null>(null);
 
   // Initialize map
   useEffect(() => {
@@ -62,1197 +252,242 @@ export function InteractiveMap({
 
     // Add tile layer
     L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '© OpenStreetMap contributors',
+      attribution: '© OpenStreetMap contributors | Boundaries © <a href="https://www.amcharts.com/">amCharts</a>, Natural Earth',
       maxZoom: 18,
     }).addTo(map.current);
 
     // Add zoom control to bottom right
     L.control.zoom({ position: 'bottomright' }).addTo(map.current);
 
-    // Add layer groups to map
-    parkrunLayerGroup.current.addTo(map.current);
-    themeParkLayerGroup.current.addTo(map.current);
+    groupLayer.current = new L.LayerGroup();
+    canvasRenderer.current = L.canvas({ padding: VIEWPORT_PADDING });
+    // Shared by every layer, so nearby events and parks cluster together.
+    // Past the spiderfy zoom the shared markers spread out instead.
+    clusters.current = L.markerClusterGroup({
+      maxClusterRadius: CLUSTER_RADIUS,
+      disableClusteringAtZoom: SPIDERFY_ZOOM,
+      showCoverageOnHover: false,
+      chunkedLoading: true,
+      iconCreateFunction: (cluster) => createClusterIcon(
+        cluster.getAllChildMarkers().flatMap((marker) => markerColours.get(marker) ?? []),
+      ),
+    }).addTo(map.current);
+    map.current.on('zoomend', (event) => setZoom((event.target as L.Map).getZoom()));
+
+    const updateViewport = () => {
+      const bounds = map.current.getBounds().pad(VIEWPORT_PADDING);
+      setViewport({ south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() });
+    };
+    map.current.on('moveend', updateViewport);
+    updateViewport();
+
+    // Links in popups, such as a theme park's nearest parkruns, fly to the
+    // record they name and open its popup
+    const container = mapContainer.current;
+    const followLink = (event: MouseEvent) => {
+      const link = (event.target as HTMLElement).closest<HTMLElement>('[data-focus-record]');
+      if (!link || !map.current) return;
+
+      event.preventDefault();
+      const { focusDataset, focusRecord, focusLatitude, focusLongitude } = link.dataset;
+      pendingPopup.current = { datasetId: focusDataset, key: focusRecord };
+      map.current.closePopup();
+      map.current.flyTo([Number(focusLatitude), Number(focusLongitude)], Math.max(map.current.getZoom(), FOCUS_ZOOM));
+    };
+    container.addEventListener('click', followLink);
+
+    const datasetLayers = layerGroups.current;
+    const drawnLayers = drawn.current;
+    const heatmapLayers = drawnHeatmaps.current;
 
     return () => {
+      container.removeEventListener('click', followLink);
       if (map.current) {
         map.current.remove();
         map.current = null;
       }
+      datasetLayers.clear();
+      drawnLayers.clear();
+      heatmapLayers.clear();
+      pendingPopup.current = null;
+      drawnMode.current = { clustered: false, canvas: false };
+      groupLayer.current = null;
+      clusters.current = null;
+      canvasRenderer.current = null;
     };
   }, []);
 
-  // Load UK parkrun data from comprehensive list
-  useEffect(() => {
-    const ukParkrunData = [
-      { name: "Abbey Park", location: "Abbey Park", latitude: 52.645191, longitude: -1.132222 },
-      { name: "Aberbeeg", location: "Ebbw Valley Cycle Track", latitude: 51.711165, longitude: -3.144286 },
-      { name: "Aberdare", location: "Aberdare Park", latitude: 51.718796, longitude: -3.460089 },
-      { name: "Aberdeen", location: "Aberdeen Beach Esplanade", latitude: 57.173898, longitude: -2.086256 },
-      { name: "Aberfields", location: "Aberfields", latitude: 51.614631, longitude: -3.538198 },
-      { name: "Aberystwyth juniors", location: "Plas Crug Park", latitude: 52.412885, longitude: -4.078402 },
-      { name: "Aberystwyth", location: "Plascrug Park", latitude: 52.414546, longitude: -4.080401 },
-      { name: "Abingdon", location: "Rye Meadow, Abingdon", latitude: 51.667957, longitude: -1.277429 },
-      { name: "Acton juniors", location: "Acton Park", latitude: 51.507905, longitude: -0.258062 },
-      { name: "Agnew", location: "Agnew Park", latitude: 54.908188, longitude: -5.0349 },
-      { name: "Albert Park juniors", location: "Albert Park juniors", latitude: 54.564844, longitude: -1.234852 },
-      { name: "Albert", location: "Albert Park, Middlesbrough", latitude: 54.564972, longitude: -1.231788 },
-      { name: "Aldenham", location: "Aldenham Country Park", latitude: 51.647953, longitude: -0.316507 },
-      { name: "Alderford Lake", location: "Alderford Lake", latitude: 52.953181, longitude: -2.675436 },
-      { name: "Alderley Park", location: "Alderley Park", latitude: 53.2793, longitude: -2.231854 },
-      { name: "Alderman Kneeshaw juniors", location: "Alderman Kneeshaw Recreation Ground", latitude: 53.769454, longitude: -0.262291 },
-      { name: "Alexandra juniors, Moss Side", location: "Alexandra Park", latitude: 53.450725, longitude: -2.248631 },
-      { name: "Alexandra juniors, Oldham", location: "Alexandra Park", latitude: 53.533022, longitude: -2.104298 },
-      { name: "Alexandra", location: "Alexandra Park", latitude: 53.450142, longitude: -2.248827 },
-      { name: "Alice Holt", location: "Alice Holt Forest", latitude: 51.16858, longitude: -0.836903 },
-      { name: "Ally Pally", location: "Alexandra Palace, Haringey", latitude: 51.595936, longitude: -0.12233 },
-      { name: "Alness", location: "Crawl Park", latitude: 57.694306, longitude: -4.256669 },
-      { name: "Alton Water", location: "Alton Water Reservoir", latitude: 51.974806, longitude: 1.134021 },
-      { name: "Alvaston", location: "Alvaston Park", latitude: 52.906173, longitude: -1.440173 },
-      { name: "Alyn Waters juniors", location: "Alyn Waters Country Park", latitude: 53.083926, longitude: -3.018039 },
-      { name: "Ancholme Valley Way", location: "Ancholme Valley Way", latitude: 53.553676, longitude: -0.496441 },
-      { name: "Anchorsholme juniors", location: "Anchorsholme", latitude: 53.870192, longitude: -3.045723 },
-      { name: "Andover juniors", location: "Charlton Sports Fields", latitude: 51.220901, longitude: -1.504812 },
-      { name: "Andover", location: "Charlton Lakeside, Andover", latitude: 51.221092, longitude: -1.512766 },
-      { name: "Antrim Castle Gardens juniors", location: "Antrim Castle Gardens juniors", latitude: 54.715944, longitude: -6.223074 },
-      { name: "Antrim", location: "Loughshore Park", latitude: 54.717078, longitude: -6.238818 },
-      { name: "Archerfield Walled Garden juniors", location: "Archerfield Walled Garden", latitude: 56.045433, longitude: -2.802062 },
-      { name: "Armagh", location: "Palace Demesne Public Park", latitude: 54.339812, longitude: -6.652951 },
-      { name: "Armley", location: "Armley Park", latitude: 53.800347, longitude: -1.590893 },
-      { name: "Arrow Valley", location: "Arrow Valley Park", latitude: 52.305986, longitude: -1.913661 },
-      { name: "Ashbourne Recreation Ground", location: "Ashbourne Recreation Ground", latitude: 53.018719, longitude: -1.727477 },
-      { name: "Ashford juniors", location: "Victoria park", latitude: 51.144975, longitude: 0.86233 },
-      { name: "Ashford", location: "Victoria Park", latitude: 51.14347, longitude: 0.864218 },
-      { name: "Ashington Community Woodland", location: "Ashington Community Woodland", latitude: 55.190433, longitude: -1.572397 },
-      { name: "Ashlyns juniors", location: "Ashlyns School", latitude: 51.752028, longitude: -0.56325 },
-      { name: "Ashton Court", location: "Ashton Court, Bristol", latitude: 51.443592, longitude: -2.639948 },
-      { name: "Auldcathie District", location: "Auldcathie District Park", latitude: 55.963327, longitude: -3.477658 },
-      { name: "Avenham Park juniors", location: "Avenham and Miller Park", latitude: 53.753281, longitude: -2.699084 },
-      { name: "Avery Hill", location: "Avery Hill Park, Greenwich", latitude: 51.449459, longitude: 0.075155 },
-      { name: "Aviemore", location: "Aviemore", latitude: 57.205275, longitude: -3.818635 },
-      { name: "Aylesbury juniors", location: "Meadowcroft Open Space", latitude: 51.829601, longitude: -0.829935 },
-      { name: "Aylesbury", location: "Opposite the Quarrendeon & Meadowcroft C", latitude: 51.83162, longitude: -0.838394 },
-      { name: "Aylestone juniors", location: "Aylestone Recreation Ground", latitude: 52.609737, longitude: -1.134248 },
-      { name: "Ayr", location: "Rozelle Park", latitude: 55.436189, longitude: -4.624316 },
-      { name: "Babbs Mill", location: "Babbs Mill Local Nature Reserve", latitude: 52.489833, longitude: -1.746034 },
-      { name: "Bailey juniors", location: "Bailey Park", latitude: 51.826629, longitude: -3.016796 },
-      { name: "Ballachulish Quarry juniors", location: "Ballachulish Slate Quarry", latitude: 56.678115, longitude: -5.129042 },
-      { name: "Banbury", location: "Spiceball park", latitude: 52.068807, longitude: -1.332318 },
-      { name: "Bangor juniors", location: "Bangor Sportsplex", latitude: 54.650612, longitude: -5.709153 },
-      { name: "Bangor", location: "Ward Park", latitude: 54.660024, longitude: -5.661693 },
-      { name: "Bankton Mains Park juniors", location: "Bankton Mains Park", latitude: 55.87326, longitude: -3.511448 },
-      { name: "Banstead Woods", location: "Banstead Woods, Coulsdon", latitude: 51.307648, longitude: -0.184225 },
-      { name: "Barclay", location: "Barclay Park", latitude: 51.759056, longitude: -0.019442 },
-      { name: "Barking juniors", location: "Barking Park", latitude: 51.546491, longitude: 0.088821 },
-      { name: "Barking", location: "Barking Park", latitude: 51.545894, longitude: 0.087312 },
-      { name: "Barnsley juniors", location: "Locke Park", latitude: 53.54438, longitude: -1.48617 },
-      { name: "Barnsley", location: "Locke Park, Barnsley", latitude: 53.544369, longitude: -1.486115 },
-      { name: "Barnstaple juniors", location: "Rock Park", latitude: 51.071801, longitude: -4.053904 },
-      { name: "Barnstaple", location: "Rock Park", latitude: 51.072561, longitude: -4.053612 },
-      { name: "Barrow juniors", location: "Barrow Park", latitude: 54.116526, longitude: -3.218758 },
-      { name: "Barrow", location: "Barrow Park, Barrow-in-Furness", latitude: 54.117706, longitude: -3.218855 },
-      { name: "Barry Island", location: "Barry Island Promenade", latitude: 51.390202, longitude: -3.271371 },
-      { name: "Barry juniors", location: "Romilly Park", latitude: 51.393485, longitude: -3.291377 },
-      { name: "Barshaw juniors", location: "Barshaw Park", latitude: 55.84851, longitude: -4.394725 },
-      { name: "Bartley Park", location: "Bartley Park", latitude: 50.914371, longitude: -1.509865 },
-      { name: "Basildon", location: "Northlands Park", latitude: 51.577778, longitude: 0.499615 },
-      { name: "Basingstoke juniors", location: "Stratton Park", latitude: 51.252197, longitude: -1.128675 },
-      { name: "Basingstoke", location: "Basingstoke War Memorial Park", latitude: 51.258831, longitude: -1.082035 },
-      { name: "Bath Odd Down juniors", location: "Odd Down Sports Ground", latitude: 51.363164, longitude: -2.376181 },
-      { name: "Bath Skyline", location: "Bath", latitude: 51.364717, longitude: -2.338425 },
-      { name: "Battersea juniors", location: "Battersea juniors", latitude: 51.477324, longitude: -0.158938 },
-      { name: "Battersea", location: "Battersea", latitude: 51.478869, longitude: -0.160095 },
-      { name: "Battery Park juniors", location: "Battery Park", latitude: 55.961198, longitude: -4.800003 },
-      { name: "Battle Recreation Ground juniors", location: "Battle Recreation Ground juniors", latitude: 50.918824, longitude: 0.476741 },
-      { name: "Battlestead Croft", location: "Battlestead Croft", latitude: 52.78924, longitude: -1.683952 },
-      { name: "Baxter Park juniors", location: "Baxter Park", latitude: 56.471942, longitude: -2.951194 },
-      { name: "Baysgarth Park", location: "Baysgarth Park", latitude: 53.679399, longitude: -0.43856 },
-      { name: "Beacon Hill Country Park", location: "Beacon Hill Country Park", latitude: 52.730411, longitude: -1.233675 },
-      { name: "Beacon juniors", location: "Beacon juniors", latitude: 52.68539, longitude: -1.836911 },
-      { name: "Beacon", location: "Beacon Park", latitude: 52.685891, longitude: -1.83863 },
-      { name: "Beaumont Park juniors", location: "Beaumont Park", latitude: 53.622934, longitude: -1.811237 },
-      { name: "Beckenham Place juniors", location: "Beckenham Place Park", latitude: 51.41912, longitude: -0.017074 },
-      { name: "Beckenham Place", location: "Beckenham Place Park", latitude: 51.41853, longitude: -0.01959 },
-      { name: "Beckton", location: "Beckton District Park South", latitude: 51.51176, longitude: 0.046542 },
-      { name: "Bedfont Lakes", location: "Bedfont Lakes Country Park", latitude: 51.440762, longitude: -0.451523 },
-      { name: "Bedford juniors", location: "Jubilee Park", latitude: 52.124298, longitude: -0.449781 },
-      { name: "Bedford", location: "Bedford Park, Bedford", latitude: 52.148125, longitude: -0.459366 },
-      { name: "Bedgebury Pinetum", location: "Bedgebury National Pinetum & Forest", latitude: 51.071871, longitude: 0.450168 },
-      { name: "Bedworth", location: "Miners Welfare Park", latitude: 52.476054, longitude: -1.47027 },
-      { name: "Beehive juniors", location: "King George V Playing Fields", latitude: 51.788927, longitude: -0.189677 },
-      { name: "Beeston", location: "Weirfields Recreation Ground", latitude: 52.913592, longitude: -1.201737 },
-      { name: "Belfast Victoria juniors", location: "Victoria Park, Belfast", latitude: 54.609998, longitude: -5.870456 },
-      { name: "Belfast Victoria", location: "Victoria Park, Belfast", latitude: 54.608785, longitude: -5.881573 },
-      { name: "Belfast YMCA juniors", location: "Belfast YMCA juniors", latitude: 54.565868, longitude: -5.935997 },
-      { name: "Belton House", location: "Belton House", latitude: 52.942743, longitude: -0.620021 },
-      { name: "Belvoir Castle", location: "Belvoir Castle", latitude: 52.894882, longitude: -0.786835 },
-      { name: "Ben's Yard, Ely", location: "Ben's Yard, Ely", latitude: 52.375707, longitude: 0.291723 },
-      { name: "Berkeley Green", location: "Berkeley Green", latitude: 51.690962, longitude: -2.497513 },
-      { name: "Berry Hill juniors", location: "Berry Hill juniors", latitude: 53.128883, longitude: -1.174603 },
-      { name: "Bestwood Village", location: "Bestwood Country Park", latitude: 53.022132, longitude: -1.171188 },
-      { name: "Bethlem Royal Hospital", location: "Bethlem Royal Hospital", latitude: 51.385332, longitude: -0.029969 },
-      { name: "Betteshanger juniors", location: "Betteshanger Country Park", latitude: 51.236001, longitude: 1.371111 },
-      { name: "Bevendean Down", location: "Bevendean Down", latitude: 50.844709, longitude: -0.107027 },
-      { name: "Beverley Westwood", location: "Beverley Westwood", latitude: 53.840255, longitude: -0.440675 },
-      { name: "Bexley", location: "Danson Park, Bexley", latitude: 51.455132, longitude: 0.113254 },
-      { name: "Bicester", location: "Langford Village", latitude: 51.891101, longitude: -1.146866 },
-      { name: "Bideford", location: "Victoria Park", latitude: 51.024075, longitude: -4.204316 },
-      { name: "Billericay", location: "Lake Meadows Park", latitude: 51.632966, longitude: 0.417446 },
-      { name: "Billingham juniors", location: "John Whitehead Park", latitude: 54.610247, longitude: -1.289735 },
-      { name: "Birchall Playing Fields", location: "Birchall Playing Fields", latitude: 53.093328, longitude: -2.024607 },
-      { name: "Birchwood Leisure Centre juniors", location: "Birchwood Leisure Centre juniors", latitude: 51.774268, longitude: -0.220709 },
-      { name: "Birkenhead", location: "Birkenhead Park", latitude: 53.394807, longitude: -3.051658 },
-      { name: "Black Park", location: "Black Park Country Park, Slough", latitude: 51.540329, longitude: -0.5476 },
-      { name: "Black Rocks", location: "Black Rocks", latitude: 53.098298, longitude: -1.56564 },
-      { name: "Blackhill", location: "Blackhill and Consett Heritage Park", latitude: 54.858315, longitude: -1.842366 },
-      { name: "Blackpool", location: "Stanley Park", latitude: 53.811727, longitude: -3.023114 },
-      { name: "Blaise Castle", location: "Blaise Castle Estate", latitude: 51.505672, longitude: -2.632932 },
-      { name: "Blandford", location: "Jubilee Way", latitude: 50.863122, longitude: -2.16627 },
-      { name: "Blickling juniors", location: "Blickling Estate", latitude: 52.810825, longitude: 1.22367 },
-      { name: "Blickling", location: "Blickling Park", latitude: 52.813653, longitude: 1.221671 },
-      { name: "Bloxwich juniors", location: "King George V Memorial Playing Fields", latitude: 52.625246, longitude: -2.006525 },
-      { name: "Blyth Links", location: "Blyth Links", latitude: 55.106922, longitude: -1.499456 },
-      { name: "Bodington juniors", location: "Bodington Cycle Circuit and Playing Fiel", latitude: 53.841537, longitude: -1.590275 },
-      { name: "Bodmin juniors", location: "Hillside Park", latitude: 50.474313, longitude: -4.73101 },
-      { name: "Bognor Regis juniors", location: "Arena Sports Centre", latitude: 50.792765, longitude: -0.693819 },
-      { name: "Bognor Regis", location: "Hotham Park", latitude: 50.786913, longitude: -0.668305 },
-      { name: "Bolberry Down", location: "Bolberry Down", latitude: 50.23197, longitude: -3.842329 },
-      { name: "Bolton", location: "Leverhulme Park, Bolton", latitude: 53.574715, longitude: -2.395615 },
-      { name: "Boston Road Rec juniors", location: "Boston Road Recreation Ground", latitude: 52.997065, longitude: -0.40055 },
-      { name: "Boston", location: "Witham Way Country Park", latitude: 52.990156, longitude: -0.038556 },
-      { name: "Boultham Park juniors", location: "Boultham Park juniors", latitude: 53.208395, longitude: -0.559223 },
-      { name: "Bournemouth", location: "Kings Park Athletic Stadium", latitude: 50.73362, longitude: -1.832732 },
-      { name: "Bower Park", location: "Bower Park", latitude: 54.761523, longitude: -3.331244 },
-      { name: "Bowling Park juniors", location: "Bowling Park juniors", latitude: 53.779024, longitude: -1.740528 },
-      { name: "Bowling Park", location: "Bowling Park", latitude: 53.778303, longitude: -1.739889 },
-      { name: "Bracknell juniors", location: "Great Hollands Recreation Ground", latitude: 51.389493, longitude: -0.778067 },
-      { name: "Bracknell", location: "Great Hollands Recreation Ground", latitude: 51.390248, longitude: -0.776844 },
-      { name: "Bramhall Park", location: "Bramhall Park, near Stockport", latitude: 53.374268, longitude: -2.160702 },
-      { name: "Bramley juniors", location: "Bramley Park", latitude: 53.81364, longitude: -1.634046 },
-      { name: "Bramley", location: "Bramley Park", latitude: 53.813432, longitude: -1.633461 },
-      { name: "Bramshall Road", location: "Bramshall Road Park", latitude: 52.895262, longitude: -1.871048 },
-      { name: "Brandon Country Park", location: "Brandon Country Park", latitude: 52.436339, longitude: 0.625877 },
-      { name: "Braunstone", location: "Braunstone, Leicester", latitude: 52.626129, longitude: -1.178681 },
-      { name: "Brayton Academy juniors", location: "Brayton Academy", latitude: 53.774828, longitude: -1.084158 },
-      { name: "Breckland Leisure Centre juniors", location: "Breckland Leisure Centre Leisure", latitude: 52.421826, longitude: 0.747829 },
-      { name: "Brentwood", location: "Weald Country Park", latitude: 51.622582, longitude: 0.266879 },
-      { name: "Bressay", location: "Bressay", latitude: 60.158081, longitude: -1.119683 },
-      { name: "Bretton Park juniors", location: "Bretton Park", latitude: 52.594039, longitude: -0.281301 },
-      { name: "Brickfields Park", location: "Brickfields Park", latitude: 51.377397, longitude: -2.385904 },
-      { name: "Bridgend juniors", location: "Newbridge Fields", latitude: 51.502567, longitude: -3.585036 },
-      { name: "Brierley Forest", location: "Brierley Forest", latitude: 53.131155, longitude: -1.295214 },
-      { name: "Brighton & Hove", location: "Hove Park, Brighton", latitude: 50.84214, longitude: -0.172498 },
-      { name: "Brixworth Country", location: "Brixworth Country Park", latitude: 52.318576, longitude: -0.895675 },
-      { name: "Broadmeadow juniors", location: "Lakeland Forum", latitude: 54.344072, longitude: -7.643103 },
-      { name: "Broadwater", location: "Broadwater Park", latitude: 51.197911, longitude: -0.598312 },
-      { name: "Brockenhurst", location: "Brockenhurst College", latitude: 50.808103, longitude: -1.642492 },
-      { name: "Brockhole on Windermere juniors", location: "Brockhole on Windermere juniors", latitude: 54.399595, longitude: -2.941735 },
-      { name: "Brockwell juniors", location: "Brockwell Park", latitude: 51.452603, longitude: -0.106505 },
-      { name: "Brockwell", location: "Brockwell Park, Herne Hill", latitude: 51.452538, longitude: -0.105464 },
-      { name: "Bromley juniors", location: "Norman Park", latitude: 51.389329, longitude: 0.026049 },
-      { name: "Bromley", location: "Norman Park, Bromley", latitude: 51.386539, longitude: 0.022874 },
-      { name: "Bromsgrove juniors", location: "Sanders Park", latitude: 52.334159, longitude: -2.072308 },
-      { name: "Brooklands", location: "Brooklands Community Park", latitude: 51.346969, longitude: -0.471408 },
-      { name: "Brueton", location: "Brueton Park, Solihull", latitude: 52.406754, longitude: -1.764593 },
-      { name: "Brumby Wood Rec Ground juniors", location: "Brumby Wood Rec Ground", latitude: 53.581186, longitude: -0.664778 },
-      { name: "Brundall", location: "Countryside Park", latitude: 52.624133, longitude: 1.417369 },
-      { name: "Brunswick Park", location: "Brunswick Park", latitude: 52.556155, longitude: -2.009344 },
-      { name: "Bryn Bach juniors", location: "Bryn Bach country park", latitude: 51.783571, longitude: -3.267184 },
-      { name: "Bryn Bach", location: "Parc Bryn Bach, Tredegar", latitude: 51.781621, longitude: -3.269548 },
-      { name: "Brynaman", location: "Brynamman Rugby Club", latitude: 51.808402, longitude: -3.869719 },
-      { name: "Buckingham juniors", location: "Bourton Park", latitude: 51.997232, longitude: -0.975386 },
-      { name: "Buckingham", location: "Bridge Street Skate Park", latitude: 51.998987, longitude: -0.984462 },
-      { name: "Bude Marshes juniors", location: "Bude Marshes", latitude: 50.826507, longitude: -4.546463 },
-      { name: "Bug Hunter Waters", location: "Bug Hunter Waters", latitude: 52.28625, longitude: 0.065252 },
-      { name: "Burgess juniors", location: "Burgess Park", latitude: 51.483207, longitude: -0.082664 },
-      { name: "Burgess", location: "Burgess Park", latitude: 51.484536, longitude: -0.081024 },
-      { name: "Burnage", location: "Varley Park, Stockport SK4 3EA", latitude: 53.407152, longitude: -2.209185 },
-      { name: "Burnham Riverside juniors", location: "Burnham Riverside Park", latitude: 51.630328, longitude: 0.804807 },
-      { name: "Burnham and Highbridge", location: "Apex Park", latitude: 51.226679, longitude: -2.990243 },
-      { name: "Burnham-on-Crouch", location: "Riverside Country Park", latitude: 51.627409, longitude: 0.810923 },
-      { name: "Burnley juniors", location: "Towneley Park", latitude: 53.777385, longitude: -2.219036 },
-      { name: "Burnley", location: "Towneley Park, Burnley", latitude: 53.77834, longitude: -2.221555 },
-      { name: "Burrow's Field juniors", location: "Burrow's Field juniors", latitude: 51.879141, longitude: -2.083087 },
-      { name: "Burslem Park juniors", location: "Burslem Park", latitude: 53.048527, longitude: -2.189272 },
-      { name: "Bury Field", location: "Bury Field", latitude: 52.088015, longitude: -0.728725 },
-      { name: "Bury St Edmunds juniors", location: "Bury St Edmunds", latitude: 52.244457, longitude: 0.734698 },
-      { name: "Bury St Edmunds", location: "Nowton Park", latitude: 52.224887, longitude: 0.730183 },
-      { name: "Bushy Park", location: "Bushy Park, Teddington", latitude: 51.410992, longitude: -0.335791 },
-      { name: "Bushy juniors", location: "Bushy Park, Teddington", latitude: 51.420504, longitude: -0.332639 },
-      { name: "Caledonian juniors", location: "Caledonian Park", latitude: 51.545794, longitude: -0.124279 },
-      { name: "California Country", location: "California Country Park", latitude: 51.379583, longitude: -0.867647 },
-      { name: "Calne Recreation Ground juniors", location: "Calne Recreation Ground", latitude: 51.437358, longitude: -1.999249 },
-      { name: "Cambourne juniors", location: "Cambourne Fitness and Sports Centre Playing Fields", latitude: 52.220084, longitude: -0.061115 },
-      { name: "Cambridge juniors", location: "Milton Country Park", latitude: 52.236606, longitude: 0.163389 },
-      { name: "Camperdown", location: "Camperdown Country Park", latitude: 56.483681, longitude: -3.030896 },
-      { name: "Cannock Chase Forest juniors", location: "Cannock Chase Forest", latitude: 52.751878, longitude: -1.969309 },
-      { name: "Cannock Chase", location: "Cannock Chase", latitude: 52.73744, longitude: -1.99542 },
-      { name: "Cannon Hill juniors", location: "Cannon Hill Park", latitude: 52.449976, longitude: -1.904225 },
-      { name: "Cannon Hill", location: "Cannon Hill, Birmingham", latitude: 52.452637, longitude: -1.89997 },
-      { name: "Canons Park", location: "Canons Park", latitude: 51.612291, longitude: -0.296184 },
-      { name: "Canterbury", location: "The Pavillion", latitude: 51.299468, longitude: 1.057002 },
-      { name: "Cape Pembroke Lighthouse", location: "Cape Pembroke Lighthouse", latitude: -51.683211, longitude: -57.757716 },
-      { name: "Cardiff juniors", location: "Llandaff Fields", latitude: 51.489617, longitude: -3.204035 },
-      { name: "Cardiff", location: "Cardiff Blackweir", latitude: 51.49736, longitude: -3.207107 },
-      { name: "Carlingwark Loch", location: "Carlingwark Loch", latitude: 54.934903, longitude: -3.927163 },
-      { name: "Carlisle Park", location: "Carlisle Park", latitude: 55.165172, longitude: -1.691159 },
-      { name: "Carlisle juniors", location: "Bitts Park", latitude: 54.899555, longitude: -2.936575 },
-      { name: "Carlisle", location: "Chances Park", latitude: 54.886025, longitude: -2.963455 },
-      { name: "Carmarthen juniors", location: "Carmarthen Park", latitude: 51.854169, longitude: -4.315982 },
-      { name: "Carrickfergus", location: "Amphitheatre Wellness Centre", latitude: 54.719992, longitude: -5.805285 },
-      { name: "Cassiobury juniors", location: "Cassiobury Park", latitude: 51.658524, longitude: -0.413769 },
-      { name: "Cassiobury", location: "Cassiobury Park", latitude: 51.657677, longitude: -0.406335 },
-      { name: "Castle Park", location: "Castle Park", latitude: 51.87167, longitude: 0.164165 },
-      { name: "Castle Playing Fields juniors", location: "Castle Playing Fields", latitude: 52.085098, longitude: 0.416726 },
-      { name: "Castle Woods", location: "Castle Woods", latitude: 57.076082, longitude: -2.784634 },
-      { name: "Castlewellan", location: "Castlewellan Forest Park", latitude: 54.262147, longitude: -5.95386 },
-      { name: "Catford", location: "Mountsfield Park", latitude: 51.44824, longitude: -0.00863 },
-      { name: "Catton", location: "Catton Park", latitude: 52.656696, longitude: 1.295507 },
-      { name: "Central Park juniors", location: "Central Park", latitude: 52.584576, longitude: -0.235072 },
-      { name: "Central Park juniors, Boston", location: "Central Park", latitude: 52.981397, longitude: -0.022603 },
-      { name: "Central, Plymouth", location: "Central Park", latitude: 50.385099, longitude: -4.151031 },
-      { name: "Centre Vale", location: "Centre Vale Park", latitude: 53.718272, longitude: -2.102438 },
-      { name: "Chadderton Hall", location: "Chadderton Hall Park", latitude: 53.554066, longitude: -2.158552 },
-      { name: "Chalkwell Beach", location: "Chalkwell Beach", latitude: 51.536925, longitude: 0.676231 },
-      { name: "Charlton", location: "Charlton Park", latitude: 51.480751, longitude: 0.041628 },
-      { name: "Chasewater", location: "Chasewater Country Park", latitude: 52.661987, longitude: -1.944407 },
-      { name: "Cheadle Hulme", location: "Bruntwood Park, Cheadle", latitude: 53.379026, longitude: -2.210652 },
-      { name: "Cheddar juniors", location: "Kings Fitness and Leisure", latitude: 51.273808, longitude: -2.77921 },
-      { name: "Chelmsford Central", location: "Central Park", latitude: 51.732577, longitude: 0.464945 },
-      { name: "Chelmsford juniors", location: "Central Park", latitude: 51.733083, longitude: 0.466286 },
-      { name: "Cheltenham juniors", location: "The Park", latitude: 51.886492, longitude: -2.088862 },
-      { name: "Cheltenham", location: "Pittville Park", latitude: 51.911754, longitude: -2.07824 },
-      { name: "Cheshunt juniors", location: "Cheshunt Park", latitude: 51.715497, longitude: -0.04912 },
-      { name: "Chester", location: "Countess of Chester Country Park", latitude: 53.207796, longitude: -2.902368 },
-      { name: "Chevin Forest", location: "Chevin Forest Park", latitude: 53.894133, longitude: -1.665858 },
-      { name: "Chichester juniors", location: "Priory Park", latitude: 50.839693, longitude: -0.776619 },
-      { name: "Chichester", location: "Oaklands Park", latitude: 50.846182, longitude: -0.777535 },
-      { name: "Chilton Fields", location: "Chilton Fields", latitude: 52.197076, longitude: 0.975934 },
-      { name: "Chippenham Playing Fields, Monmouth", location: "Chippenham Playing Fields", latitude: 51.80783, longitude: -2.718161 },
-      { name: "Chippenham juniors", location: "Monkton Park", latitude: 51.460235, longitude: -2.111954 },
-      { name: "Chippenham", location: "Monkton Park", latitude: 51.460469, longitude: -2.113119 },
-      { name: "Chipping Norton School", location: "Chipping Norton School", latitude: 51.93812, longitude: -1.54029 },
-      { name: "Chipping Sodbury", location: "The Ridings", latitude: 51.544366, longitude: -2.397165 },
-      { name: "Chopwell Wood", location: "Chopwell Wood", latitude: 54.922026, longitude: -1.790884 },
-      { name: "Christie", location: "Christie", latitude: 55.123837, longitude: -6.671908 },
-      { name: "Church Mead", location: "Church Mead", latitude: 51.667191, longitude: -0.614472 },
-      { name: "Churchill Gardens juniors", location: "Churchill Gardens Leisure Centre", latitude: 51.062559, longitude: -1.790559 },
-      { name: "Cirencester", location: "Royal Agricultural University", latitude: 51.711207, longitude: -1.99109 },
-      { name: "Citypark", location: "Citypark Park, Craigavon", latitude: 54.451093, longitude: -6.386002 },
-      { name: "Clacton Seafront", location: "Clacton Seafront", latitude: 51.781574, longitude: 1.142974 },
-      { name: "Clacton juniors", location: "Clacton Seafront", latitude: 51.781588, longitude: 1.142953 },
-      { name: "Clair", location: "Clair Park", latitude: 51.004322, longitude: -0.100143 },
-      { name: "Clapham Common", location: "Clapham Common", latitude: 51.455873, longitude: -0.151331 },
-      { name: "Clare Castle", location: "Clare Castle Country Park", latitude: 52.076428, longitude: 0.581882 },
-      { name: "Clarence", location: "Clarence Park", latitude: 53.604665, longitude: -2.289921 },
-      { name: "Cleethorpes", location: "Cleethorpes Country Park", latitude: 53.541552, longitude: -0.025384 },
-      { name: "Clevedon Salthouse Fields", location: "Clevedon Salthouse Park", latitude: 51.434573, longitude: -2.866505 },
-      { name: "Clevedon Seafront juniors", location: "Clevedon Seafront", latitude: 51.439169, longitude: -2.864385 },
-      { name: "Cliff Park juniors", location: "Cliff Park,", latitude: 51.937792, longitude: 1.28484 },
-      { name: "Cliffe Castle", location: "Cliffe Castle Park", latitude: 53.874658, longitude: -1.913364 },
-      { name: "Clifton", location: "Clifton Playing Fields", latitude: 52.907144, longitude: -1.163033 },
-      { name: "Clitheroe Castle juniors", location: "Clitheroe Castle Gardens", latitude: 53.870606, longitude: -2.394122 },
-      { name: "Clitheroe Castle", location: "Clitheroe Castle Gardens", latitude: 53.870346, longitude: -2.39478 },
-      { name: "Clough Hall juniors", location: "Clough Hall Park", latitude: 53.083194, longitude: -2.249699 },
-      { name: "Clumber Park", location: "Clumber Park", latitude: 53.268022, longitude: -1.065717 },
-      { name: "Cobb Gate juniors", location: "Cobb Gate", latitude: 50.724478, longitude: -2.932919 },
-      { name: "Cockermouth Greenway juniors", location: "Cockermouth Greenway juniors", latitude: 54.659599, longitude: -3.353097 },
-      { name: "Cockermouth Greenway", location: "Cockermouth Greenway", latitude: 54.659659, longitude: -3.356998 },
-      { name: "Coed Cefn-pwll-du", location: "Coed Cefn-pwll-du", latitude: 51.591855, longitude: -3.140954 },
-      { name: "Colby", location: "Colby Woodland Garden", latitude: 51.74064, longitude: -4.669924 },
-      { name: "Colchester Castle", location: "Castle Park", latitude: 51.89167, longitude: 0.902724 },
-      { name: "Colchester juniors", location: "Old Heath Recreation Ground", latitude: 51.87996, longitude: 0.919969 },
-      { name: "Coldham's Common juniors", location: "Coldham's Common", latitude: 52.208437, longitude: 0.15458 },
-      { name: "Coldham's Common", location: "Coldham's Common", latitude: 52.206705, longitude: 0.158881 },
-      { name: "Colin Glen", location: "Colin Glen Forest Park", latitude: 54.570723, longitude: -6.020504 },
-      { name: "Collett Park juniors", location: "Collett Park", latitude: 51.187461, longitude: -2.542572 },
-      { name: "Colney Lane", location: "UEA Colney Lane Playing Fields", latitude: 52.621317, longitude: 1.22519 },
-      { name: "Colwick", location: "Colwick Country Park, Nottingham", latitude: 52.945171, longitude: -1.09786 },
-      { name: "Comber juniors", location: "Parkway", latitude: 54.549098, longitude: -5.739909 },
-      { name: "Comber", location: "Parkway", latitude: 54.549593, longitude: -5.740415 },
-      { name: "Community Park juniors", location: "Community Park", latitude: 54.252207, longitude: -0.772206 },
-      { name: "Concord", location: "Concord Park, Sheffield", latitude: 53.424007, longitude: -1.441612 },
-      { name: "Congleton", location: "Astbury Mere", latitude: 53.160781, longitude: -2.229795 },
-      { name: "Conkers", location: "Conkers Park", latitude: 52.739475, longitude: -1.543021 },
-      { name: "Conwy Nature Reserve juniors", location: "Conwy Nature Reserve", latitude: 53.279512, longitude: -3.809626 },
-      { name: "Conwy", location: "RSPB Nature Reserve, Conwy", latitude: 53.279388, longitude: -3.808966 },
-      { name: "Conyngham Hall", location: "Conyngham Hall", latitude: 54.011758, longitude: -1.479507 },
-      { name: "Cooper Park juniors", location: "Cooper Park", latitude: 57.653727, longitude: -3.31303 },
-      { name: "Corby", location: "West Glebe Recreation Ground", latitude: 52.493879, longitude: -0.691774 },
-      { name: "Coronation Park juniors", location: "Coronation Park", latitude: 53.567433, longitude: -2.889525 },
-      { name: "Coronation Park", location: "Coronation Park", latitude: 52.773488, longitude: -1.586547 },
-      { name: "Cosmeston Lakes", location: "Cosmeston Lakes Country Park", latitude: 51.418047, longitude: -3.185615 },
-      { name: "Cotlands Park juniors", location: "Cotlands Park", latitude: 56.211928, longitude: -3.046588 },
-      { name: "Cotsford Fields", location: "Cotsford Fields", latitude: 54.759499, longitude: -1.30077 },
-      { name: "Cottenham Recreation Ground juniors", location: "Cottenham Recreation Ground", latitude: 52.289032, longitude: 0.115253 },
-      { name: "Coventry", location: "War Memorial Park, Coventry", latitude: 52.39172, longitude: -1.524026 },
-      { name: "Cowick Barton Playing Fields juniors", location: "Cowick Barton Playing Fields juniors", latitude: 50.711668, longitude: -3.545242 },
-      { name: "Cranbrook Country Park juniors", location: "Cranbrook Country Park", latitude: 50.751359, longitude: -3.408137 },
-      { name: "Cranbrook Country Park", location: "Cranbrook Country Park", latitude: 50.750746, longitude: -3.417858 },
-      { name: "Crane Park", location: "Crane Park, Twickenham", latitude: 51.441168, longitude: -0.372075 },
-      { name: "Cranleigh juniors", location: "Bruce Mckenzie Memorial Field", latitude: 51.138393, longitude: -0.492747 },
-      { name: "Cranleigh", location: "Knowle Park", latitude: 51.13819, longitude: -0.49151 },
-      { name: "Crathes Castle", location: "Crathes Castle", latitude: 57.061178, longitude: -2.440954 },
-      { name: "Crawfordsburn Country", location: "Crawfordsburn Country Park", latitude: 54.666682, longitude: -5.729434 },
-      { name: "Crewe", location: "Queens Park", latitude: 53.097388, longitude: -2.470556 },
-      { name: "Crichton", location: "The Crichton", latitude: 55.050773, longitude: -3.594589 },
-      { name: "Crinan Canal", location: "Crinan Canal", latitude: 56.090978, longitude: -5.554954 },
-      { name: "Crosby", location: "Crosby Leisure Centre", latitude: 53.48269, longitude: -3.046711 },
-      { name: "Cross Flatts juniors", location: "Cross Flatts Park", latitude: 53.776611, longitude: -1.558242 },
-      { name: "Cross Flatts", location: "Cross Flatts Park", latitude: 53.775754, longitude: -1.55757 },
-      { name: "Croxteth Hall", location: "Croxteth Hall Country Park", latitude: 53.44217, longitude: -2.891774 },
-      { name: "Croyland Park juniors", location: "Croyland Park juniors", latitude: 52.294379, longitude: -0.705317 },
-      { name: "Crystal Palace juniors", location: "Crystal Palace Park", latitude: 51.419792, longitude: -0.06577 },
-      { name: "Crystal Palace", location: "Crystal Palace Park", latitude: 51.419846, longitude: -0.065703 },
-      { name: "Cuningar Loop", location: "Cuningar Loop", latitude: 55.84069, longitude: -4.201428 },
-      { name: "Cusworth Hall", location: "Cusworth Hall Museum & Park", latitude: 53.529479, longitude: -1.177617 },
-      { name: "Cwmbran", location: "Northfields Recreation Ground", latitude: 51.656234, longitude: -3.013498 },
-      { name: "Cycle Route 43, Ystalyfera", location: "Cycle Route 43, Ystalyfera", latitude: 51.755941, longitude: -3.789728 },
-      { name: "Cyclopark", location: "Cyclopark", latitude: 51.419922, longitude: 0.352561 },
-      { name: "Dalby Forest", location: "Dalby Forest Courtyard", latitude: 54.273821, longitude: -0.686599 },
-      { name: "Darlington South Park", location: "South Park", latitude: 54.51484, longitude: -1.560531 },
-      { name: "Dartford Heath", location: "Heath Lane", latitude: 51.435932, longitude: 0.189929 },
-      { name: "Dartford juniors", location: "Central Park", latitude: 51.44107, longitude: 0.219065 },
-      { name: "Dartford", location: "Central Park", latitude: 51.439141, longitude: 0.220166 },
-      { name: "Daventry Country Park juniors", location: "Daventry Country Park", latitude: 52.272681, longitude: -1.156307 },
-      { name: "Daventry", location: "Daventry Country Park", latitude: 52.262374, longitude: -1.15732 },
-      { name: "Dean Castle Country Park", location: "Dean Castle Country Park", latitude: 55.622901, longitude: -4.482932 },
-      { name: "Delamere", location: "Delamere Forest", latitude: 53.239537, longitude: -2.68796 },
-      { name: "Denton Dene", location: "Denton Dene", latitude: 54.977492, longitude: -1.694872 },
-      { name: "Derby Park juniors", location: "Derby Park", latitude: 53.45145, longitude: -2.979622 },
-      { name: "Dereham", location: "Dereham", latitude: 52.684276, longitude: 0.96988 },
-      { name: "Derry City juniors", location: "Foyle Arena", latitude: 55.000642, longitude: -7.304701 },
-      { name: "Derry City", location: "Derry City Centre", latitude: 55.006966, longitude: -7.318933 },
-      { name: "Derrynoid Forest", location: "Derrynoid Forest", latitude: 54.802964, longitude: -6.810505 },
-      { name: "Desborough Green Space juniors", location: "Desborough Leisure Centre", latitude: 52.446059, longitude: -0.819338 },
-      { name: "Devonport juniors", location: "Devonport Park,", latitude: 50.376471, longitude: -4.172108 },
-      { name: "Dewsbury juniors", location: "Crow Nest Park", latitude: 53.688984, longitude: -1.646944 },
-      { name: "Dewsbury", location: "Crow Nest Park, Dewsbury", latitude: 53.688239, longitude: -1.646237 },
-      { name: "Didcot", location: "Ladygrove Park", latitude: 51.612792, longitude: -1.239 },
-      { name: "Diglis Fields juniors", location: "Diglis Fields juniors", latitude: 52.180949, longitude: -2.219602 },
-      { name: "Dinton Pastures juniors", location: "Dinton Pastures Country Park", latitude: 51.445499, longitude: -0.871282 },
-      { name: "Dinton Pastures", location: "Dinton Pastures Country Park", latitude: 51.440292, longitude: -0.880056 },
-      { name: "Dishley, Loughborough", location: "Loughborough Rugby Club", latitude: 52.787485, longitude: -1.234785 },
-      { name: "Dixton juniors", location: "Monmouth Leisure Centre", latitude: 51.815864, longitude: -2.707755 },
-      { name: "Doddington Hall", location: "Doddington Hall", latitude: 53.222149, longitude: -0.650558 },
-      { name: "Dolgellau", location: "The Marian", latitude: 52.744574, longitude: -3.886527 },
-      { name: "Dover Waterfront", location: "Dover Waterfront", latitude: 51.119994, longitude: 1.313027 },
-      { name: "Dowds Farm juniors", location: "Dowds Farm", latitude: 50.931244, longitude: -1.304687 },
-      { name: "Downham Market Academy", location: "Downham Market Academy", latitude: 52.6034, longitude: 0.389471 },
-      { name: "Drumchapel", location: "Garscadden Woods East", latitude: 55.91688, longitude: -4.350674 },
-      { name: "Drumpellier Country", location: "Drumpellier Country Park", latitude: 55.871588, longitude: -4.065615 },
-      { name: "Drumpellier juniors", location: "Drumpellier Park", latitude: 55.872855, longitude: -4.068698 },
-      { name: "Druridge Bay", location: "Druridge Bay Country Park", latitude: 55.292765, longitude: -1.572348 },
-      { name: "Dudley", location: "The Dell Stadium", latitude: 52.490027, longitude: -2.134568 },
-      { name: "Dukeries juniors", location: "Dukeries Leisure Centre", latitude: 53.207905, longitude: -0.997203 },
-      { name: "Duloch juniors", location: "Duloch Country Park", latitude: 56.062493, longitude: -3.401857 },
-      { name: "Dulwich", location: "Dulwich Park, Dulwich", latitude: 51.443869, longitude: -0.079206 },
-      { name: "Dumfries juniors", location: "Dock Park", latitude: 55.062707, longitude: -3.606924 },
-      { name: "Dunfermline", location: "Pittencrieff Park", latitude: 56.070684, longitude: -3.470694 },
-      { name: "Dungannon Park", location: "Dungannon Park", latitude: 54.489432, longitude: -6.755359 },
-      { name: "Dunleath Playing Fields", location: "Dunleath Playing Fields", latitude: 54.323473, longitude: -5.718077 },
-      { name: "Dunstable Downs", location: "Dunstable Downs", latitude: 51.865432, longitude: -0.537791 },
-      { name: "Durham City juniors", location: "Durham Racecourse", latitude: 54.775551, longitude: -1.564287 },
-      { name: "Durham", location: "Graham Sports Centre, Durham", latitude: 54.767605, longitude: -1.558852 },
-      { name: "Durlston Country Park", location: "Durlston Country Park", latitude: 50.595211, longitude: -1.954023 },
-      { name: "Duthie juniors", location: "Duthie Park", latitude: 57.131553, longitude: -2.105342 },
-      { name: "East Brighton", location: "East Brighton Park", latitude: 50.818691, longitude: -0.099373 },
-      { name: "East Grinstead", location: "East Court", latitude: 51.129008, longitude: 0.001373 },
-      { name: "East Park", location: "East Park", latitude: 52.579042, longitude: -2.101975 },
-      { name: "Eastbourne juniors", location: "King Edwards Parade", latitude: 50.76191, longitude: 0.286914 },
-      { name: "Eastbourne", location: "Shinewater Park, Eastbourne", latitude: 50.806248, longitude: 0.290451 },
-      { name: "Eastleigh", location: "Fleming Park Old Golf Course, Eastleigh", latitude: 50.971433, longitude: -1.374032 },
-      { name: "Eastney juniors", location: "Bransbury Park", latitude: 50.789698, longitude: -1.054334 },
-      { name: "Eastville juniors", location: "Eastville Park", latitude: 51.476132, longitude: -2.554961 },
-      { name: "Eastville", location: "Eastville Park", latitude: 51.475453, longitude: -2.554304 },
-      { name: "Eaton juniors", location: "Eaton Park", latitude: 52.619606, longitude: 1.25856 },
-      { name: "Ecos", location: "Ecos Park, Ballymena", latitude: 54.867371, longitude: -6.259117 },
-      { name: "Eden Project", location: "Eden Project", latitude: 50.358315, longitude: -4.74285 },
-      { name: "Edenbrook Country", location: "Edenbrook Country Park", latitude: 51.280199, longitude: -0.867088 },
-      { name: "Edgbaston Reservoir juniors", location: "Edgbaston Reservoir", latitude: 52.477393, longitude: -1.942842 },
-      { name: "Edgbaston Reservoir", location: "Edgbaston Reservoir", latitude: 52.476722, longitude: -1.936437 },
-      { name: "Edinburgh", location: "Edinburgh Promenade", latitude: 55.978806, longitude: -3.291585 },
-      { name: "Egham Orbit", location: "Egham Orbit", latitude: 51.428178, longitude: -0.540107 },
-      { name: "Eglinton", location: "Eglinton Country Park", latitude: 55.643935, longitude: -4.669662 },
-      { name: "Elder Park juniors", location: "Elder Park", latitude: 55.863242, longitude: -4.325388 },
-      { name: "Elder Park", location: "Elder Park", latitude: 55.863235, longitude: -4.32197 },
-      { name: "Elgin", location: "Cooper Park", latitude: 57.653393, longitude: -3.313072 },
-      { name: "Ellesmere Port", location: "Whitby Park", latitude: 53.272524, longitude: -2.902542 },
-      { name: "Ellon", location: "Ellon Academy Community Campus", latitude: 57.359262, longitude: -2.056968 },
-      { name: "Eltham juniors", location: "Eltham Park South", latitude: 51.455664, longitude: 0.068186 },
-      { name: "Ely Country juniors", location: "Ely Country Park", latitude: 52.399139, longitude: 0.275369 },
-      { name: "Endcliffe", location: "Endcliffe Park, Sheffield", latitude: 53.368631, longitude: -1.507364 },
-      { name: "Enfield Town juniors", location: "Enfield Town Park", latitude: 51.648422, longitude: -0.084363 },
-      { name: "Enniskillen", location: "Enniskillen", latitude: 54.343834, longitude: -7.642293 },
-      { name: "Erddig", location: "Erddig Hall", latitude: 53.027137, longitude: -3.006833 },
-      { name: "Erskine Waterfront", location: "Erskine Waterfront", latitude: 55.907749, longitude: -4.447774 },
-      { name: "Evesham juniors", location: "Evesham", latitude: 52.09023, longitude: -1.958169 },
-      { name: "Evesham", location: "Evesham", latitude: 52.090191, longitude: -1.958122 },
-      { name: "Exeter Riverside", location: "Exeter Quay & River Valley Park", latitude: 50.713762, longitude: -3.525833 },
-      { name: "Exmouth", location: "Exmouth", latitude: 50.614697, longitude: -3.412392 },
-      { name: "Eyemouth Primary Playing Fields juniors", location: "Eyemouth Primary Playing Fields", latitude: 55.868943, longitude: -2.093581 },
-      { name: "Falinge Park juniors", location: "Falinge Park juniors", latitude: 53.623457, longitude: -2.164 },
-      { name: "Falkirk", location: "Callendar Park, Falkirk", latitude: 55.99543, longitude: -3.766712 },
-      { name: "Falls", location: "Falls Park, Belfast", latitude: 54.586363, longitude: -5.978879 },
-      { name: "Fareham", location: "Cams Hall Estate", latitude: 50.848448, longitude: -1.167385 },
-      { name: "Faskally Forest", location: "Faskally Forest", latitude: 56.7118, longitude: -3.767296 },
-      { name: "Faversham Recreation Ground juniors", location: "The Recreation Ground", latitude: 51.312083, longitude: 0.897824 },
-      { name: "FeldyRoo Fitness Trail", location: "FeldyRoo Fitness Trail", latitude: 56.622075, longitude: -3.875777 },
-      { name: "Felixstowe Prom juniors", location: "Felixstowe Prom", latitude: 51.957785, longitude: 1.345726 },
-      { name: "Felixstowe", location: "Undercliff Road West", latitude: 51.957778, longitude: 1.345741 },
-      { name: "Fell Foot", location: "Fell Foot Park", latitude: 54.274736, longitude: -2.952259 },
-      { name: "Ferry Meadows", location: "Ferry Meadows Country Park", latitude: 52.565563, longitude: -0.308132 },
-      { name: "Fife Cycle Park juniors", location: "Fife Cycle Park", latitude: 56.140406, longitude: -3.320574 },
-      { name: "Figges Marsh juniors", location: "Figges Marsh", latitude: 51.414902, longitude: -0.16132 },
-      { name: "Finsbury Park", location: "Finsbury Park", latitude: 51.569595, longitude: -0.104145 },
-      { name: "Fire Service College", location: "Fire Service College", latitude: 51.990688, longitude: -1.675487 },
-      { name: "Fitzmaurice Park", location: "Fitzmaurice Park", latitude: 52.638196, longitude: 1.36115 },
-      { name: "Five Arches", location: "Norton-Radstock Greenway", latitude: 51.292354, longitude: -2.452787 },
-      { name: "Flatts Lane", location: "Flatts Lane Woodland Country Park", latitude: 54.543872, longitude: -1.151741 },
-      { name: "Fleetwood Promenade", location: "Outer Promenade", latitude: 53.927366, longitude: -3.016919 },
-      { name: "Flegg High", location: "Flegg High Ormiston Academy", latitude: 52.713022, longitude: 1.640492 },
-      { name: "Fletcher Moss", location: "Fletcher Moss Park", latitude: 53.40999, longitude: -2.23551 },
-      { name: "Florence Park juniors", location: "Florence Park", latitude: 51.737483, longitude: -1.223801 },
-      { name: "Folkestone", location: "The Leas", latitude: 51.075729, longitude: 1.172753 },
-      { name: "Foots Cray Meadows", location: "Foots Cray Meadows", latitude: 51.432103, longitude: 0.133269 },
-      { name: "Ford", location: "Ford Park", latitude: 54.198427, longitude: -3.088135 },
-      { name: "Forest Rec juniors", location: "Forest Recreation Ground", latitude: 52.965238, longitude: -1.160495 },
-      { name: "Forest Rec", location: "Forest Recreation Gound, Nottingham", latitude: 52.965352, longitude: -1.159766 },
-      { name: "Forest of Dean juniors", location: "Coverham Enclosure, Forest of Dean", latitude: 51.808701, longitude: -2.605219 },
-      { name: "Forest of Dean", location: "Coverham Enclosure, Forest of Dean", latitude: 51.808701, longitude: -2.605219 },
-      { name: "Forfar Loch", location: "Forfar Loch", latitude: 56.642663, longitude: -2.908213 },
-      { name: "Forster Memorial Park juniors", location: "Forster Memorial Park", latitude: 51.432132, longitude: -0.007122 },
-      { name: "Fort William", location: "Nevis Range", latitude: 56.851484, longitude: -4.999161 },
-      { name: "Fountains Abbey", location: "Fountains Abbey", latitude: 54.110196, longitude: -1.581983 },
-      { name: "Friary Park juniors", location: "Friary Park", latitude: 51.619706, longitude: -0.162187 },
-      { name: "Frickley Country", location: "Frickley Country Park", latitude: 53.588573, longitude: -1.290457 },
-      { name: "Frimley Lodge", location: "Frimley Lodge Park", latitude: 51.298622, longitude: -0.724851 },
-      { name: "Frogmary Green Farm", location: "Frogmary Green Farm", latitude: 50.941688, longitude: -2.824426 },
-      { name: "Fulbourn Hospital", location: "Fulbourn Hospital", latitude: 52.184131, longitude: 0.186094 },
-      { name: "Fulham Palace", location: "Bishops Park", latitude: 51.472465, longitude: -0.218493 },
-      { name: "Fulwell Quarry", location: "Fulwell Quarry", latitude: 54.9329, longitude: -1.396723 },
-      { name: "Furzefield Leisure Centre juniors", location: "Furzefield Leisure Centre", latitude: 51.702931, longitude: -0.208328 },
-      { name: "GEC Rec juniors", location: "GEC Recreational Ground", latitude: 52.365561, longitude: -1.239956 },
-      { name: "Gadebridge Park juniors", location: "Gadebridge Park", latitude: 51.760476, longitude: -0.473894 },
-      { name: "Gadebridge", location: "Gadebridge Park", latitude: 51.758909, longitude: -0.473542 },
-      { name: "Ganavan Sands", location: "Ganavan", latitude: 56.437766, longitude: -5.469021 },
-      { name: "Gang Warily juniors", location: "Gang Warily juniors", latitude: 50.824705, longitude: -1.371549 },
-      { name: "Ganger Farm", location: "Ganger Farm Sports Park", latitude: 51.009374, longitude: -1.464821 },
-      { name: "Gardenhurst Estate juniors", location: "Gardenhurst Estate Park", latitude: 53.13934, longitude: -2.668462 },
-      { name: "Garvagh Forest", location: "Garvagh Forest", latitude: 54.977416, longitude: -6.695537 },
-      { name: "Gateshead", location: " Saltwell Park, Gateshead", latitude: 54.944733, longitude: -1.602094 },
-      { name: "Gedling juniors", location: "Gedling Country Park", latitude: 52.99389, longitude: -1.087241 },
-      { name: "Gedling", location: "Gedling Country Park", latitude: 52.993919, longitude: -1.087124 },
-      { name: "Girvan Prom", location: "Knockcushan Street", latitude: 55.243994, longitude: -4.862538 },
-      { name: "Gladstone", location: "Gladstone Park, London", latitude: 51.556982, longitude: -0.228223 },
-      { name: "Glossop", location: "Manor Park", latitude: 53.447019, longitude: -1.939503 },
-      { name: "Gloucester City", location: "Gloucester Park", latitude: 51.858707, longitude: -2.243129 },
-      { name: "Gloucester North", location: "Plock Court Playing Fields", latitude: 51.878304, longitude: -2.231707 },
-      { name: "Gnoll juniors", location: "Gnoll Estate Country Park", latitude: 51.662428, longitude: -3.787224 },
-      { name: "Gnoll", location: "Gnoll Estate Country Park", latitude: 51.661114, longitude: -3.788616 },
-      { name: "Golden Valley Playing Field juniors", location: "Golden Valley Playing Field", latitude: 51.430594, longitude: -2.751774 },
-      { name: "Goole", location: "West Park", latitude: 53.710492, longitude: -0.891098 },
-      { name: "Gordon Park juniors", location: "Gordon Park", latitude: 57.364138, longitude: -2.080593 },
-      { name: "Gorleston Cliffs", location: "Gorleston Cliffs Promenade", latitude: 52.567806, longitude: 1.73069 },
-      { name: "Gorleston juniors", location: "Gorleston-on-sea", latitude: 52.567979, longitude: 1.731107 },
-      { name: "Goudhurst juniors", location: "The Village Green", latitude: 51.113694, longitude: 0.463445 },
-      { name: "Grange Paddocks juniors", location: "Grange Paddocks Leisure Centre", latitude: 51.877648, longitude: 0.162395 },
-      { name: "Grangemoor", location: "Cardiff", latitude: 51.454464, longitude: -3.192412 },
-      { name: "Graves juniors", location: "Graves Park", latitude: 53.338892, longitude: -1.465051 },
-      { name: "Graves", location: "Graves Park, Sheffield", latitude: 53.338906, longitude: -1.464657 },
-      { name: "Gravesend juniors", location: "Riverside Leisure Area", latitude: 51.443724, longitude: 0.379039 },
-      { name: "Great Cornard juniors", location: "Great Cornard Sports Centre", latitude: 52.023598, longitude: 0.749416 },
-      { name: "Great Cornard", location: "Great Cornard Sports Centre", latitude: 52.02463, longitude: 0.751362 },
-      { name: "Great Denham juniors", location: "Great Denham juniors", latitude: 52.121891, longitude: -0.508851 },
-      { name: "Great Denham", location: "Great Denham", latitude: 52.121602, longitude: -0.509062 },
-      { name: "Great Dunmow", location: "The Recreation Ground", latitude: 51.878681, longitude: 0.3627 },
-      { name: "Great Lines", location: "Great Lines Heritage ParkPark", latitude: 51.388527, longitude: 0.541334 },
-      { name: "Great Notley juniors", location: "Great Notley Country Park", latitude: 51.863774, longitude: 0.51556 },
-      { name: "Great Notley", location: "Great Notley Country Park", latitude: 51.864147, longitude: 0.51584 },
-      { name: "Great Salterns", location: "Great Salterns Recreation Ground", latitude: 50.809385, longitude: -1.046606 },
-      { name: "Great Wakering Rec juniors", location: "Great Wakering Rec juniors", latitude: 51.554492, longitude: 0.794846 },
-      { name: "Great Yarmouth North Beach", location: "Great Yarmouth North Beach", latitude: 52.613141, longitude: 1.73892 },
-      { name: "Greendale Farm Shop", location: "Greendale Farm Shop", latitude: 50.703157, longitude: -3.398836 },
-      { name: "Greenfield Valley", location: "Greenfield Valley", latitude: 53.275044, longitude: -3.220992 },
-      { name: "Greenock", location: "The Esplanade", latitude: 55.956525, longitude: -4.767348 },
-      { name: "Greville Smyth Park juniors", location: "Greville Smyth Park juniors", latitude: 51.442898, longitude: -2.620993 },
-      { name: "Groe", location: "Groe Park", latitude: 52.150418, longitude: -3.403113 },
-      { name: "Grove Fields", location: "Grove Fields", latitude: 51.600059, longitude: -1.425256 },
-      { name: "Grovelands", location: "Grovelands Park, Enfield", latitude: 51.633076, longitude: -0.113769 },
-      { name: "Guernsey", location: "Pembroke Bay", latitude: 49.502341, longitude: -2.530312 },
-      { name: "Guildford juniors", location: "Stoke Park", latitude: 51.244977, longitude: -0.567461 },
-      { name: "Guildford", location: "Stoke Park, Guildford", latitude: 51.247383, longitude: -0.562062 },
-      { name: "Gunnersbury", location: "Gunnersbury Park, South Acton", latitude: 51.499405, longitude: -0.292253 },
-      { name: "Gunpowder", location: "Gunpowder Park, Waltham Abbey", latitude: 51.676037, longitude: -0.000831 },
-      { name: "Hackney Marshes", location: "Hackney Marshes", latitude: 51.553686, longitude: -0.025368 },
-      { name: "Hackworth", location: "Hackworth Park", latitude: 54.628071, longitude: -1.644945 },
-      { name: "Hadleigh", location: "Hadleigh Country Park", latitude: 51.549769, longitude: 0.59606 },
-      { name: "Hafan Pwllheli", location: "Plas Heli Cyf", latitude: 52.888538, longitude: -4.402811 },
-      { name: "Hafan Yr Afon juniors", location: "Hafan Yr Afon juniors", latitude: 52.514615, longitude: -3.319064 },
-      { name: "Haigh Woodland", location: "Haigh Country Park", latitude: 53.572714, longitude: -2.609519 },
-      { name: "Haldon Forest", location: "Haldon Forest Park", latitude: 50.653392, longitude: -3.579359 },
-      { name: "Halewood juniors", location: "Halewood juniors", latitude: 53.36741, longitude: -2.840853 },
-      { name: "Halifax", location: "Shroggs Park", latitude: 53.731746, longitude: -1.873871 },
-      { name: "Hampstead Heath", location: "Hampstead Heath", latitude: 51.558598, longitude: -0.168185 },
-      { name: "Hamsterley Forest", location: "Hamsterley Forest Outdoor Centre", latitude: 54.675593, longitude: -1.858786 },
-      { name: "Hanley", location: "Hanley Park, Hanley", latitude: 53.012501, longitude: -2.175164 },
-      { name: "Hanworth juniors", location: "Hanworth Air Park Leisure Centre & Libra", latitude: 51.439389, longitude: -0.391593 },
-      { name: "Hanworth", location: "Hanworth Park", latitude: 51.43874, longitude: -0.398287 },
-      { name: "Harcourt Hill juniors", location: "Harcourt Hill Campus", latitude: 51.739341, longitude: -1.295183 },
-      { name: "Harcourt Hill", location: "Harcourt Hill Campus", latitude: 51.739369, longitude: -1.295191 },
-      { name: "Harleston Magpies", location: "Harleston Magpies Hockey Club", latitude: 52.384367, longitude: 1.295457 },
-      { name: "Harlow juniors", location: "Harlow Town Park", latitude: 51.77798, longitude: 0.098433 },
-      { name: "Harlow", location: "Harlow Town Park", latitude: 51.77766, longitude: 0.103624 },
-      { name: "Harold Park juniors", location: "Harold Park juniors", latitude: 53.757146, longitude: -1.773264 },
-      { name: "Harrogate juniors", location: "The Valley Gardens", latitude: 53.991699, longitude: -1.550192 },
-      { name: "Harrogate", location: "The Stray, Harrogate", latitude: 53.992428, longitude: -1.521435 },
-      { name: "Harrow Lodge juniors", location: "Harrow Lodge Park", latitude: 51.555718, longitude: 0.202013 },
-      { name: "Harrow Lodge", location: "Harrow Lodge Park", latitude: 51.555606, longitude: 0.200715 },
-      { name: "Harrow", location: "Harrow Recreation Ground", latitude: 51.581781, longitude: -0.342734 },
-      { name: "Hartlepool", location: "Hartlepool", latitude: 54.686937, longitude: -1.195128 },
-      { name: "Harwich", location: "Cliff Park", latitude: 51.938035, longitude: 1.284809 },
-      { name: "Hastings High School", location: "Hastings High School", latitude: 52.53526, longitude: -1.356127 },
-      { name: "Hastings", location: "Hastings", latitude: 50.850291, longitude: 0.539739 },
-      { name: "Havant", location: "Staunton Country Park", latitude: 50.875771, longitude: -0.975565 },
-      { name: "Haverfordwest", location: "Haverfordwest Crickert Club", latitude: 51.797163, longitude: -4.992836 },
-      { name: "Haverhill", location: "Puddlebrook Playing Fields", latitude: 52.076737, longitude: 0.422212 },
-      { name: "Hawkwell juniors", location: "Clements Hall Recreation Ground", latitude: 51.595524, longitude: 0.673991 },
-      { name: "Hay Lodge", location: "Hay Lodge Park", latitude: 55.651659, longitude: -3.199586 },
-      { name: "Haywards Heath juniors", location: "Victoria Park", latitude: 50.998429, longitude: -0.106104 },
-      { name: "Hazelwood", location: "Hazelwood Centre", latitude: 51.405783, longitude: -0.421045 },
-      { name: "Hazlehead", location: "Hazlehead Park", latitude: 57.141371, longitude: -2.175647 },
-      { name: "Heartlands", location: "Heartlands,", latitude: 50.224177, longitude: -5.2715 },
-      { name: "Heaton Park", location: "Heaton Park, Manchester", latitude: 53.531975, longitude: -2.256263 },
-      { name: "Heavitree juniors", location: "Heavitree Pleasure Ground", latitude: 50.723092, longitude: -3.501308 },
-      { name: "Helix juniors", location: "Helix Park", latitude: 56.008708, longitude: -3.757796 },
-      { name: "Hemlington Lake juniors", location: "Hemlington Lake", latitude: 54.526005, longitude: -1.244316 },
-      { name: "Henley Wood, Oswestry", location: "Henley Wood", latitude: 52.862542, longitude: -3.030368 },
-      { name: "Henley-on-Thames", location: "Henley-on-Thames", latitude: 51.531978, longitude: -0.919288 },
-      { name: "Henlow Bridge Lakes", location: "Henlow Bridge Lakes", latitude: 52.030537, longitude: -0.268787 },
-      { name: "Hereford Leisure Centre juniors", location: "Hereford Leisure Centre", latitude: 52.070452, longitude: -2.7242 },
-      { name: "Hereford", location: "Hereford", latitude: 52.068892, longitude: -2.724152 },
-      { name: "Herne Bay Memorial Park juniors", location: "Herne Bay Memorial Park", latitude: 51.369128, longitude: 1.124931 },
-      { name: "Herrington Country", location: "Herrington Country Park", latitude: 54.876573, longitude: -1.476809 },
-      { name: "Hertford juniors", location: "Hartham Common", latitude: 51.801059, longitude: -0.077451 },
-      { name: "Hesketh Park juniors", location: "Hesketh Park juniors", latitude: 53.656229, longitude: -2.986136 },
-      { name: "Heslington", location: "York Sport Village", latitude: 53.949319, longitude: -1.01799 },
-      { name: "Hetton Lyons Country Park juniors", location: "Hetton Lyons Country Park juniors", latitude: 54.82399, longitude: -1.440605 },
-      { name: "Higginson, Marlow", location: "Higginson Park,", latitude: 51.566268, longitude: -0.779573 },
-      { name: "Highbury Fields juniors", location: "Highbury Fields", latitude: 51.547113, longitude: -0.103038 },
-      { name: "Highbury Fields", location: "Highbury Fields, Highbury", latitude: 51.546959, longitude: -0.102884 },
-      { name: "Highwoods", location: "Highwoods Country Park", latitude: 51.904682, longitude: 0.917561 },
-      { name: "Hillsborough Forest", location: "Hillsborough Forest", latitude: 54.461336, longitude: -6.076662 },
-      { name: "Hillsborough juniors", location: "Hillsborough Park", latitude: 53.408463, longitude: -1.498726 },
-      { name: "Hillsborough", location: "Hillsborough Park", latitude: 53.408457, longitude: -1.501973 },
-      { name: "Hilly Fields juniors", location: "Hilly Fields park", latitude: 51.459916, longitude: -0.023945 },
-      { name: "Hilly Fields", location: "Hilly Fields", latitude: 51.460143, longitude: -0.025019 },
-      { name: "Hinksley Park Recreation Ground juniors", location: "Hinksley Park Recreation Ground", latitude: 52.007399, longitude: -0.486713 },
-      { name: "Hoblingwell juniors", location: "Hoblingwell Wood Recreation Ground", latitude: 51.401701, longitude: 0.099478 },
-      { name: "Hoblingwell", location: "Hoblingwell Wood Recreation Ground", latitude: 51.400981, longitude: 0.098847 },
-      { name: "Hockley Woods", location: "Hockley Woods", latitude: 51.596133, longitude: 0.64912 },
-      { name: "Hogmoor Inclosure juniors", location: "Hogmoor Inclosure", latitude: 51.111093, longitude: -0.876815 },
-      { name: "Hogmoor Inclosure", location: "Hogmoor Inclosure", latitude: 51.111681, longitude: -0.875934 },
-      { name: "Holbrooks", location: "Holbrooks Park", latitude: 52.439154, longitude: -1.509052 },
-      { name: "Holkham", location: "Holkham Hall", latitude: 52.950159, longitude: 0.801022 },
-      { name: "Holmebrook Valley juniors", location: "Holmebrook Valley juniors", latitude: 53.253722, longitude: -1.46929 },
-      { name: "Holy Cross College", location: "Holy Cross College", latitude: 54.815718, longitude: -7.477408 },
-      { name: "Holyrood", location: "Holyrood Park", latitude: 55.952167, longitude: -3.162844 },
-      { name: "Homewood", location: "Ottershaw Memorial Fields", latitude: 51.366808, longitude: -0.539078 },
-      { name: "Horfield Common juniors", location: "Horfield Common juniors", latitude: 51.486172, longitude: -2.59309 },
-      { name: "Hornfair Park juniors", location: "Hornfair Park juniors", latitude: 51.476699, longitude: 0.044621 },
-      { name: "Horsforth Hall juniors", location: "Horsforth Hall Park", latitude: 53.838245, longitude: -1.646854 },
-      { name: "Horsham juniors", location: "Horsham Park", latitude: 51.066568, longitude: -0.32753 },
-      { name: "Horsham", location: "Horsham", latitude: 51.066497, longitude: -0.327823 },
-      { name: "Horspath", location: "Horspath Sports Ground & Athletic Track", latitude: 51.737281, longitude: -1.188165 },
-      { name: "Horton Park", location: "Horton Park", latitude: 53.782455, longitude: -1.77538 },
-      { name: "Houghton Hall juniors", location: "Houghton Hall Park", latitude: 51.901555, longitude: -0.509799 },
-      { name: "Houghton Hall", location: "Houghton Hall Park", latitude: 51.90155, longitude: -0.510046 },
-      { name: "Hove Park juniors", location: "Hove Park", latitude: 50.841288, longitude: -0.172638 },
-      { name: "Hove Promenade", location: "Hove Lawns", latitude: 50.823391, longitude: -0.166594 },
-      { name: "Hucknall juniors", location: "Titchfield Park", latitude: 53.029124, longitude: -1.203623 },
-      { name: "Huddersfield juniors", location: "Greenhead Park", latitude: 53.648309, longitude: -1.799336 },
-      { name: "Huddersfield", location: "Greenhead Park, Huddersfield", latitude: 53.650608, longitude: -1.800685 },
-      { name: "Hull", location: "East Park, Hull", latitude: 53.764645, longitude: -0.300708 },
-      { name: "Humber Bridge", location: "Humber Bridge Country Park", latitude: 53.71723, longitude: -0.453352 },
-      { name: "Hunstanton Promenade", location: "Hunstanton North Promenade", latitude: 52.941684, longitude: 0.486526 },
-      { name: "Huntingdon", location: "Huntingdon", latitude: 52.330591, longitude: -0.213662 },
-      { name: "Hutton Recreation Ground juniors", location: "Hutton Recreation Ground", latitude: 51.634782, longitude: 0.353999 },
-      { name: "Hyde juniors", location: "Hyde Park", latitude: 53.458379, longitude: -2.07756 },
-      { name: "Hyde", location: "Hyde Park", latitude: 53.45713, longitude: -2.076554 },
-      { name: "Hyndburn", location: "Wilson Playing Fields", latitude: 53.781711, longitude: -2.376734 },
-      { name: "Ifield Mill Pond", location: "Ifield Mill Pond", latitude: 51.107508, longitude: -0.218863 },
-      { name: "Ingrebourne Hill", location: "Ingrebourne Hill", latitude: 51.527042, longitude: 0.194266 },
-      { name: "Inverleith juniors", location: "Inverleith park", latitude: 55.964343, longitude: -3.213143 },
-      { name: "Ipswich juniors", location: "Christchurch Park", latitude: 52.065233, longitude: 1.159304 },
-      { name: "Ipswich", location: "Chantry Park", latitude: 52.050923, longitude: 1.116032 },
-      { name: "Irchester Country", location: "Irchester Country Park", latitude: 52.285076, longitude: -0.673649 },
-      { name: "Isabel Trail", location: "Isabel Trail", latitude: 52.808242, longitude: -2.125953 },
-      { name: "Itchen Valley Country", location: "Itchen Valley Country Park", latitude: 50.944849, longitude: -1.341722 },
-      { name: "Jacks Road juniors", location: "NAAC Athletics Arena", latitude: 55.642811, longitude: -4.794416 },
-      { name: "Jersey Farm", location: "Jersey Farm Woodland Park", latitude: 51.773718, longitude: -0.307978 },
-      { name: "Jersey", location: "Les Quennevais sports centre", latitude: 49.195026, longitude: -2.204124 },
-      { name: "Jesmond Dene", location: "Jesmond Dene", latitude: 54.99188, longitude: -1.592839 },
-      { name: "Jordanstown juniors", location: "Ulster University, Jordanstown Campus", latitude: 54.68829, longitude: -5.88614 },
-      { name: "Jubilee juniors", location: "Jubilee Park", latitude: 52.359161, longitude: -0.165825 },
-      { name: "Jubilee", location: "Jubilee Park", latitude: 54.701073, longitude: -1.604602 },
-      { name: "Katherine Warington School juniors", location: "Katherine Warington School juniors", latitude: 51.82316, longitude: -0.331033 },
-      { name: "Kellands Park juniors", location: "Kellands Park juniors", latitude: 57.279397, longitude: -2.378495 },
-      { name: "Kennington Park juniors", location: "Kennington Park", latitude: 51.483136, longitude: -0.108661 },
-      { name: "Kenton Rec juniors", location: "Kenton Recreation Ground", latitude: 51.586093, longitude: -0.320608 },
-      { name: "Kesgrave juniors", location: "Kesgrave", latitude: 52.058171, longitude: 1.256579 },
-      { name: "Kesgrave", location: "Kesgrave", latitude: 52.058138, longitude: 1.257741 },
-      { name: "Keswick juniors", location: "Upper Fitz Park", latitude: 54.602628, longitude: -3.135084 },
-      { name: "Keswick", location: "Keswick Railway Path", latitude: 54.603863, longitude: -3.129497 },
-      { name: "Kettering", location: "Wicksteed Park", latitude: 52.384226, longitude: -0.710653 },
-      { name: "Kew Woods", location: "Kew Woods", latitude: 53.629073, longitude: -2.995064 },
-      { name: "Killerton", location: "Killerton, Broadclyst", latitude: 50.792835, longitude: -3.455007 },
-      { name: "King George Playing Fields juniors", location: "King George Playing Fields", latitude: 53.771471, longitude: -0.376956 },
-      { name: "King George V Playing Field juniors", location: "King George V Playing Field", latitude: 51.63791, longitude: -0.500452 },
-      { name: "King George V Playing Field", location: "King George V Playing Field", latitude: 51.901883, longitude: -2.110018 },
-      { name: "King George V juniors", location: "King George V Park", latitude: 51.37731, longitude: -2.136166 },
-      { name: "King George juniors", location: "King George Recreation Ground", latitude: 51.642943, longitude: -0.352275 },
-      { name: "Kingdom", location: "Kingdom", latitude: 51.162408, longitude: 0.162768 },
-      { name: "Kings Weston juniors", location: "Kings Weston Estate", latitude: 51.493696, longitude: -2.660036 },
-      { name: "Kingsbury Water", location: "Kingsbury Water Park", latitude: 52.561983, longitude: -1.698718 },
-      { name: "Kingsgrove Woodland juniors", location: "Kingsgrove Woodland", latitude: 51.599166, longitude: -1.405631 },
-      { name: "Kingston", location: "Kingston Riverside", latitude: 51.426567, longitude: -0.309516 },
-      { name: "Kingsway", location: "Kingsway Sports Pavillion", latitude: 51.821487, longitude: -2.272804 },
-      { name: "King's Lynn juniors", location: "The Walks", latitude: 52.752894, longitude: 0.405875 },
-      { name: "King's Lynn", location: "The Walks, King's Lynn", latitude: 52.752762, longitude: 0.407446 },
-      { name: "King's Park juniors", location: "King's Park juniors", latitude: 55.814092, longitude: -4.244033 },
-      { name: "Kirkcaldy", location: "Beveridge Park", latitude: 56.104087, longitude: -3.169549 },
-      { name: "Kirkwall", location: "The Peedie Sea", latitude: 58.982282, longitude: -2.948069 },
-      { name: "Knavesmire juniors", location: "The Knavesmire", latitude: 53.941473, longitude: -1.095572 },
-      { name: "Knockbracken Reservoir", location: "Knockbracken Reservoir", latitude: 54.524392, longitude: -5.892928 },
-      { name: "Knowsley", location: "Stadt Moers Park", latitude: 53.411116, longitude: -2.811654 },
-      { name: "Lake Meadows juniors", location: "Lake Meadows", latitude: 51.633139, longitude: 0.417884 },
-      { name: "Laleham juniors", location: "Thames Side", latitude: 51.399461, longitude: -0.488839 },
-      { name: "Lanark Moor", location: "Lanark Racecourse", latitude: 55.666318, longitude: -3.750284 },
-      { name: "Lancaster", location: "Williamson Park", latitude: 54.04568, longitude: -2.781183 },
-      { name: "Lancing Beach Green", location: "28 Brighton Road", latitude: 50.820591, longitude: -0.323792 },
-      { name: "Land's End", location: "Land's End", latitude: 50.066127, longitude: -5.714096 },
-      { name: "Lanhydrock", location: "Lanhydrock House", latitude: 50.441131, longitude: -4.69614 },
-      { name: "Largs Prom", location: "Largs Prom", latitude: 55.802062, longitude: -4.873064 },
-      { name: "Larne juniors", location: "Town Park", latitude: 54.857605, longitude: -5.807147 },
-      { name: "Larne", location: "Carnfunnock Country Park", latitude: 54.88843, longitude: -5.843595 },
-      { name: "Latchmere Rec juniors", location: "Latchmere Recreation Ground", latitude: 51.423598, longitude: -0.294215 },
-      { name: "Lea Bridges juniors", location: "Lea Bridges Park", latitude: 52.604975, longitude: 1.291251 },
-      { name: "Leamington", location: "Newbold Comyn, Leamington", latitude: 52.28714, longitude: -1.504655 },
-      { name: "Leatherhead juniors", location: "Leatherhead Leisure Centre", latitude: 51.291056, longitude: -0.332135 },
-      { name: "Leavesden Country", location: "Leavesden Country Park", latitude: 51.704924, longitude: -0.403599 },
-      { name: "Leavesden juniors", location: "Leavesden Country Park", latitude: 51.705262, longitude: -0.403035 },
-      { name: "Leazes", location: "Leazes Park", latitude: 54.977078, longitude: -1.625633 },
-      { name: "Lee-on-the-Solent", location: "Lee-on-the-Solent", latitude: 50.801087, longitude: -1.20383 },
-      { name: "Leicester Victoria", location: "Victoria Park", latitude: 52.620954, longitude: -1.121659 },
-      { name: "Leigh juniors", location: "Leigh Sports Village", latitude: 53.490116, longitude: -2.526349 },
-      { name: "Leighton Buzzard juniors", location: "Parson's Close Recreation Ground", latitude: 51.914155, longitude: -0.662005 },
-      { name: "Lesnes Abbey Woods juniors", location: "Lesnes Abbey Woods Park", latitude: 51.488936, longitude: 0.12764 },
-      { name: "Letchworth", location: "Grange Recreation Ground", latitude: 51.999895, longitude: -0.22279 },
-      { name: "Levengrove juniors", location: "Levengrove Park", latitude: 55.939855, longitude: -4.575965 },
-      { name: "Levengrove", location: "Levengrove Park,", latitude: 55.940721, longitude: -4.57567 },
-      { name: "Lews Castle", location: "Lews Castle Grounds", latitude: 58.207899, longitude: -6.396894 },
-      { name: "Leybourne Lakes", location: "Leybourne Lakes Country Park", latitude: 51.31537, longitude: 0.437343 },
-      { name: "Leyton Jubilee juniors", location: "Leyton Jubilee Park", latitude: 51.56385, longitude: -0.028188 },
-      { name: "Limavady", location: "Blackburn Park", latitude: 55.047128, longitude: -6.944777 },
-      { name: "Limepark Playing Fields", location: "Limepark Playing Fields", latitude: 55.123827, longitude: -6.32179 },
-      { name: "Lincoln", location: "Boultham Park", latitude: 53.208848, longitude: -0.560904 },
-      { name: "Linford Wood", location: "Linford Wood", latitude: 52.05864, longitude: -0.760168 },
-      { name: "Lingwood Village Hall juniors", location: "Lingwood Village Hall juniors", latitude: 52.618807, longitude: 1.493585 },
-      { name: "Lingwood", location: "Lingwood Village Hall", latitude: 52.618901, longitude: 1.493528 },
-      { name: "Linwood", location: "ON-X Linwood", latitude: 55.854033, longitude: -4.505078 },
-      { name: "Lister Park, Bradford", location: "Lister Park, Bradford", latitude: 53.814575, longitude: -1.775102 },
-      { name: "Little Stoke juniors", location: "Little Stoke Park", latitude: 51.529479, longitude: -2.55975 },
-      { name: "Littlehampton Prom", location: "Promenade", latitude: 50.802284, longitude: -0.541939 },
-      { name: "Littleport", location: "Littleport Recreation Ground,", latitude: 52.463048, longitude: 0.299342 },
-      { name: "Livingston", location: "Almondvale Park", latitude: 55.886797, longitude: -3.518828 },
-      { name: "Llanerchaeron", location: "Llanerchaeron", latitude: 52.220443, longitude: -4.235798 },
-      { name: "Llanishen Park", location: "Llanishen Park", latitude: 51.529533, longitude: -3.196302 },
-      { name: "Lloyd juniors", location: "Lloyd Park", latitude: 51.36575, longitude: -0.080886 },
-      { name: "Lloyd", location: "Lloyd Park, Croydon", latitude: 51.364807, longitude: -0.079973 },
-      { name: "Llyn Llech Owain", location: "Llyn Llech Owain", latitude: 51.812913, longitude: -4.080563 },
-      { name: "Loch Leven juniors", location: "Kirkgate Park", latitude: 56.201892, longitude: -3.412742 },
-      { name: "Loch Leven", location: "Loch Leven's Larder", latitude: 56.219434, longitude: -3.358085 },
-      { name: "Loch Neaton", location: "Loch Neaton", latitude: 52.577558, longitude: 0.8274 },
-      { name: "Lochend Woods", location: "Hallhill Sports Centre", latitude: 55.997214, longitude: -2.521501 },
-      { name: "Lochore Meadows", location: "Lochore Meadows Country Park", latitude: 56.150699, longitude: -3.33708 },
-      { name: "London Fields juniors", location: "London Fields West Side", latitude: 51.542178, longitude: -0.060373 },
-      { name: "Long Eaton juniors", location: "West Park Leisure Centre", latitude: 52.895161, longitude: -1.288336 },
-      { name: "Long Eaton", location: "West Park Leisure Centre", latitude: 52.895155, longitude: -1.285853 },
-      { name: "Longrun Meadow juniors", location: "Longrun Meadow", latitude: 51.017199, longitude: -3.115089 },
-      { name: "Longrun Meadow", location: "Longrun Meadow Park", latitude: 51.018755, longitude: -3.114989 },
-      { name: "Longton juniors", location: "Longton Park", latitude: 52.976222, longitude: -2.138212 },
-      { name: "Lordship Rec Ground juniors", location: "Lordship Recreation Ground", latitude: 51.594357, longitude: -0.086875 },
-      { name: "Lordship Recreation Ground", location: "Lordship Recreation Ground", latitude: 51.594341, longitude: -0.086951 },
-      { name: "Lough Moss juniors", location: "Lough Moss Leisure Centre", latitude: 54.514716, longitude: -5.900203 },
-      { name: "Loughmacrory", location: "Loughmacrory", latitude: 54.627906, longitude: -7.106576 },
-      { name: "Lovelace Primary School juniors", location: "Lovelace Primary School juniors", latitude: 51.364375, longitude: -0.317858 },
-      { name: "Lowestoft", location: "Lowestoft Promenade", latitude: 52.468286, longitude: 1.747338 },
-      { name: "Ludlow", location: "Mortimer Forest", latitude: 52.353284, longitude: -2.773078 },
-      { name: "Lullingstone", location: "Lullingstone Country Park", latitude: 51.353118, longitude: 0.187147 },
-      { name: "Lurgan Park", location: "Lurgan Park", latitude: 54.46303, longitude: -6.322774 },
-      { name: "Lurgan juniors", location: "Lurgan Park", latitude: 54.462455, longitude: -6.321318 },
-      { name: "Luton Wardown", location: "Wardown Park", latitude: 51.889853, longitude: -0.420917 },
-      { name: "Lutterworth Country Park juniors", location: "Lutterworth Country Park", latitude: 52.458921, longitude: -1.220674 },
-      { name: "Lydiard juniors", location: "Lydiard Park, Swindon", latitude: 51.563048, longitude: -1.857423 },
-      { name: "Lydiard", location: "Lydiard Park, Swindon", latitude: 51.561489, longitude: -1.853621 },
-      { name: "Lydney", location: "Lydney Boating Lake", latitude: 51.721613, longitude: -2.52648 },
-      { name: "Lyme Park", location: "Lyme Park", latitude: 53.337193, longitude: -2.058402 },
-      { name: "Lyme Valley Parkway juniors", location: "Lyme Valley Parkway juniors", latitude: 53.003581, longitude: -2.220016 },
-      { name: "Lymington Woodside", location: "Woodside Gardens", latitude: 50.747747, longitude: -1.54548 },
-      { name: "Lytham Hall", location: "Lytham Hall", latitude: 53.744855, longitude: -2.977613 },
-      { name: "MUSA Cookstown", location: "Mid Ulster Sports Arena", latitude: 54.615093, longitude: -6.735656 },
-      { name: "MacRosty juniors", location: "MacRosty Park", latitude: 56.378325, longitude: -3.847588 },
-      { name: "Macclesfield", location: "South Park", latitude: 53.251413, longitude: -2.1303 },
-      { name: "Maesteg", location: "Welfare Park", latitude: 51.609499, longitude: -3.665573 },
-      { name: "Magherafelt juniors", location: "Polepatrick", latitude: 54.761747, longitude: -6.596783 },
-      { name: "Maidenhead", location: "Braywick Park", latitude: 51.51095, longitude: -0.712135 },
-      { name: "Maidstone River Park", location: "River Medway", latitude: 51.29641, longitude: 0.507689 },
-      { name: "Maldon Prom juniors", location: "Promenade Park", latitude: 51.726789, longitude: 0.689713 },
-      { name: "Maldon Prom", location: "Maldon Promenade Park", latitude: 51.726742, longitude: 0.68877 },
-      { name: "Mallards Pike", location: "Mallards Pike", latitude: 51.784666, longitude: -2.528555 },
-      { name: "Malling Rec", location: "Malling Rec", latitude: 50.880478, longitude: 0.011973 },
-      { name: "Malvern Park juniors", location: "Malvern Park", latitude: 52.411054, longitude: -1.771231 },
-      { name: "Manor Field, Whittlesey", location: "Manor Field (Manor Leisure Centre)", latitude: 52.551869, longitude: -0.125941 },
-      { name: "Manor Park juniors", location: "Manor Park", latitude: 51.288548, longitude: 0.405811 },
-      { name: "Manor Park juniors, Glossop", location: "Manor Park, Glossop", latitude: 53.448255, longitude: -1.939551 },
-      { name: "Mansfield", location: "Mansfield", latitude: 53.174034, longitude: -1.183844 },
-      { name: "March", location: "Williamson Park", latitude: 52.550069, longitude: 0.086208 },
-      { name: "Margate juniors", location: "Hartsdown Park", latitude: 51.383375, longitude: 1.37197 },
-      { name: "Margate", location: "Margate", latitude: 51.39207, longitude: 1.403997 },
-      { name: "Marine Parade", location: "Marine Parade", latitude: 51.334997, longitude: -2.983828 },
-      { name: "Markeaton juniors", location: "Markeaton Park", latitude: 52.934138, longitude: -1.503604 },
-      { name: "Markeaton", location: "Markeaton", latitude: 52.935408, longitude: -1.504769 },
-      { name: "Market Bosworth Country Park", location: "Market Bosworth Country Park", latitude: 52.623664, longitude: -1.391946 },
-      { name: "Market Harborough juniors", location: "Welland Park", latitude: 52.47499, longitude: -0.928372 },
-      { name: "Market Harborough", location: "Welland Park", latitude: 52.474487, longitude: -0.924979 },
-      { name: "Market Rasen Racecourse", location: "Market Rasen Racecourse", latitude: 53.380502, longitude: -0.309019 },
-      { name: "Markshall Estate", location: "Markshall Estate", latitude: 51.897737, longitude: 0.673757 },
-      { name: "Marlborough Common", location: "Marlborough Common", latitude: 51.42448, longitude: -1.732581 },
-      { name: "Marple juniors", location: "Brabyns Park", latitude: 53.408027, longitude: -2.05793 },
-      { name: "Marple", location: "Brabyns Park, Stockport", latitude: 53.404476, longitude: -2.056509 },
-      { name: "Marshall Drive", location: "Marshall Playing Field", latitude: 54.574096, longitude: -0.947956 },
-      { name: "Maryport Prom", location: "The Promenade", latitude: 54.7171, longitude: -3.50107 },
-      { name: "Meadowmill", location: "Meadowmill Sports Centre", latitude: 55.954249, longitude: -2.966242 },
-      { name: "Medina I.O.W juniors", location: "Seaclose Park", latitude: 50.709673, longitude: -1.287434 },
-      { name: "Medina I.O.W.", location: "Seaclose Park, Medina, I.O.W.", latitude: 50.725836, longitude: -1.143086 },
-      { name: "Medway juniors", location: "Strand Leisure Park", latitude: 51.394926, longitude: 0.564496 },
-      { name: "Melksham", location: "King George V Park", latitude: 51.377226, longitude: -2.136235 },
-      { name: "Melton Mowbray", location: "Melton Country park", latitude: 52.780002, longitude: -0.879068 },
-      { name: "Meon Valley Trail, Wickham", location: "Meon Valley Trail, Wickham", latitude: 50.904574, longitude: -1.182258 },
-      { name: "Mersea Island", location: "Cudmore Grove", latitude: 51.79164, longitude: 0.99368 },
-      { name: "Merthyr Leisure Village juniors", location: "Merthyr Leisure Village juniors", latitude: 51.740891, longitude: -3.377121 },
-      { name: "Merthyr", location: "Merthyr Leisure Village", latitude: 51.73896, longitude: -3.375658 },
-      { name: "Mewsbrook juniors", location: "Mewsbrook juniors", latitude: 50.803727, longitude: -0.523837 },
-      { name: "Middleton Woods", location: "Middleton Park", latitude: 53.751892, longitude: -1.557233 },
-      { name: "Mildenhall Hub juniors", location: "Mildenhall Hub", latitude: 52.342965, longitude: 0.499085 },
-      { name: "Mildenhall Hub", location: "Mildenhall Hub", latitude: 52.342792, longitude: 0.499399 },
-      { name: "Mile End juniors", location: "Mile End Park", latitude: 51.518602, longitude: -0.034735 },
-      { name: "Mile End", location: "Mile End Park, London", latitude: 51.518169, longitude: -0.033946 },
-      { name: "Milford Waterfront", location: "Milford Waterfront", latitude: 51.710763, longitude: -5.031507 },
-      { name: "Millbank Boating Pond juniors", location: "Millbank Boating Pond", latitude: 58.589596, longitude: -3.521585 },
-      { name: "Millennium Country", location: "Forest of Marston Vale - Millennium Coun", latitude: 52.065265, longitude: -0.534082 },
-      { name: "Millennium Green juniors", location: "Millennium Green", latitude: 51.681029, longitude: -1.408248 },
-      { name: "Millfield juniors", location: "Millfield Park & Recreation Area", latitude: 54.125471, longitude: -1.189371 },
-      { name: "Millfield", location: "Millfield Park & Recreation Area", latitude: 54.125154, longitude: -1.190864 },
-      { name: "Millhouses juniors", location: "Millhouses juniors", latitude: 53.342803, longitude: -1.499097 },
-      { name: "Millhouses", location: "Millhouses Park", latitude: 53.338516, longitude: -1.505027 },
-      { name: "Millom", location: "Millom Network Centre", latitude: 54.21399, longitude: -3.26996 },
-      { name: "Milnrow Memorial Park juniors", location: "Milnrow Memorial Park", latitude: 53.604202, longitude: -2.10291 },
-      { name: "Milton Country", location: "Milton Country Park, Cambridge", latitude: 52.236675, longitude: 0.161906 },
-      { name: "Milton Keynes juniors", location: "Emerson Valley Sports Pavilion", latitude: 52.002181, longitude: -0.782082 },
-      { name: "Milton Keynes", location: "Willen Lake, Milton Keynes", latitude: 52.05011, longitude: -0.722984 },
-      { name: "Minehead", location: "Minehead", latitude: 51.207524, longitude: -3.469591 },
-      { name: "Moira juniors", location: "Moira Demesne", latitude: 54.483275, longitude: -6.228082 },
-      { name: "Mole Valley", location: "Denbies Wine Estate", latitude: 51.248259, longitude: -0.330645 },
-      { name: "Monsal Trail", location: "Hassop Station", latitude: 53.230788, longitude: -1.675286 },
-      { name: "Montalto Estate", location: "Montalto Estate", latitude: 54.393274, longitude: -5.899066 },
-      { name: "Montrose", location: "Roselea Football Club", latitude: 56.726297, longitude: -2.455223 },
-      { name: "Moormead juniors", location: "Moormead and Bandy Recreation Ground", latitude: 51.451595, longitude: -0.326684 },
-      { name: "Moors Valley juniors", location: "Moors Valley Country Park and Forest", latitude: 50.851371, longitude: -1.849369 },
-      { name: "Moors Valley", location: "Moors Valley Country Park and Forest", latitude: 50.85124, longitude: -1.849419 },
-      { name: "Morden", location: "Morden", latitude: 51.392759, longitude: -0.208072 },
-      { name: "Morecambe Prom", location: "Promenade", latitude: 54.065082, longitude: -2.885102 },
-      { name: "Mote Park juniors", location: "Mote Park juniors", latitude: 51.264913, longitude: 0.539226 },
-      { name: "Mote Park", location: "Mote Park", latitude: 51.269539, longitude: 0.541967 },
-      { name: "Mount Edgcumbe", location: "Mount Edgcumbe House and Country Park", latitude: 50.357664, longitude: -4.175493 },
-      { name: "Mount Stuart", location: "Mount Stuart", latitude: 55.792888, longitude: -5.019453 },
-      { name: "Mowbray Park juniors", location: "Mowbray Park", latitude: 54.902339, longitude: -1.379874 },
-      { name: "Muncaster Castle", location: "Muncaster Castle", latitude: 54.357004, longitude: -3.388267 },
-      { name: "Musgrave juniors", location: "Musgrave Park", latitude: 54.570204, longitude: -5.974033 },
-      { name: "Myrtle", location: "Myrtle Park", latitude: 53.846344, longitude: -1.838295 },
-      { name: "NIAC juniors", location: "NIAC juniors", latitude: 51.51203, longitude: -3.162076 },
-      { name: "Nairn Links", location: "Nairn Links", latitude: 57.589215, longitude: -3.871407 },
-      { name: "Nant y Pandy", location: "Nant y Pandy Nature Reserve", latitude: 53.257642, longitude: -4.313233 },
-      { name: "Netley Abbey juniors", location: "Royal Victoria Country Park", latitude: 50.8683, longitude: -1.345392 },
-      { name: "Netley Abbey", location: "Royal Victoria Country Park", latitude: 50.865345, longitude: -1.334453 },
-      { name: "New Earswick", location: "New Earswick Sports Club", latitude: 53.99025, longitude: -1.077677 },
-      { name: "New Milton juniors", location: "Fawcetts Field", latitude: 50.747045, longitude: -1.669084 },
-      { name: "Newark juniors", location: "Sconce and Devon Park", latitude: 53.070181, longitude: -0.819014 },
-      { name: "Newark", location: "Sconce and Devon Park", latitude: 53.070031, longitude: -0.81905 },
-      { name: "Newbiggin-by-the-Sea", location: "Newbiggin Promenade", latitude: 55.185215, longitude: -1.505386 },
-      { name: "Newborough Forest", location: "Newborough Forest", latitude: 53.144163, longitude: -4.386757 },
-      { name: "Newbury", location: "Greenham Common, Newbury", latitude: 51.378426, longitude: -1.292267 },
-      { name: "Newent", location: "Newent Community School/Forest Leisure C", latitude: 51.926515, longitude: -2.410056 },
-      { name: "Newport juniors", location: "Tredegar House", latitude: 51.562767, longitude: -3.028793 },
-      { name: "Newport", location: "Tredegar House, Newport", latitude: 51.559479, longitude: -3.030939 },
-      { name: "Newry Greenway", location: "Newry Greenway", latitude: 54.170834, longitude: -6.339015 },
-      { name: "Newtown", location: "Dolerw Park Bridge", latitude: 52.514658, longitude: -3.319012 },
-      { name: "Nobles", location: "Nobles Park", latitude: 54.166432, longitude: -4.480834 },
-      { name: "Nonsuch juniors", location: "Nonsuch Park", latitude: 51.357366, longitude: -0.230945 },
-      { name: "Nonsuch", location: "Nonsuch Park, Cheam", latitude: 51.356926, longitude: -0.231078 },
-      { name: "Norfolk Heritage Park juniors", location: "Norfolk Heritage Park juniors", latitude: 53.368694, longitude: -1.446852 },
-      { name: "Norfolk Road Playing Fields juniors", location: "Norfolk Road Playing Fields", latitude: 51.94983, longitude: -0.025046 },
-      { name: "Normanby Hall", location: "Normanby Hall Country Park", latitude: 53.638407, longitude: -0.659924 },
-      { name: "Norris Green Park juniors", location: "Norris Green Park juniors", latitude: 53.438154, longitude: -2.919317 },
-      { name: "North Marine juniors", location: "North Marine Park", latitude: 55.003069, longitude: -1.424229 },
-      { name: "North Walsham", location: "North Walsham High School and Sports Centre", latitude: 52.818216, longitude: 1.391589 },
-      { name: "North Yorkshire Water Park", location: "North Yorkshire Water Park", latitude: 54.227812, longitude: -0.482836 },
-      { name: "Northala Fields juniors", location: "Northala Fields", latitude: 51.540587, longitude: -0.376008 },
-      { name: "Northala Fields", location: "Northala Fields Park", latitude: 51.541272, longitude: -0.376711 },
-      { name: "Northallerton juniors", location: "Stone Cross Playing Fields", latitude: 54.34923, longitude: -1.433966 },
-      { name: "Northallerton", location: "Hambleton Leisure Centre", latitude: 54.348466, longitude: -1.435519 },
-      { name: "Northampton Racecourse juniors", location: "Northampton Racecourse", latitude: 52.247243, longitude: -0.886303 },
-      { name: "Northampton", location: "Northampton Racecourse", latitude: 52.248143, longitude: -0.884445 },
-      { name: "Northlands juniors", location: "Northlands Park", latitude: 51.57779, longitude: 0.498314 },
-      { name: "Northwich", location: "Carey Park", latitude: 53.265511, longitude: -2.510876 },
-      { name: "Norton Common juniors", location: "Norton Common", latitude: 51.983369, longitude: -0.227968 },
-      { name: "Norwich", location: "Eaton Park, Norwich", latitude: 52.620422, longitude: 1.255682 },
-      { name: "Nostell", location: "Nostell Priory", latitude: 53.650212, longitude: -1.381241 },
-      { name: "Nova Prestatyn", location: "Nova Centre", latitude: 53.342126, longitude: -3.414183 },
-      { name: "Oak Hill", location: "Oak Hill Park, East Barnet", latitude: 51.637718, longitude: -0.153744 },
-      { name: "Oaklands College", location: "Oaklands College", latitude: 51.754303, longitude: -0.288522 },
-      { name: "Oaklands", location: "Oaklands Recreation Ground", latitude: 52.466391, longitude: -1.818013 },
-      { name: "Oakwell Hall", location: "Oakwell Hall Country Park", latitude: 53.739437, longitude: -1.671596 },
-      { name: "Ockwells juniors", location: "Ockwells Park", latitude: 51.50267, longitude: -0.73546 },
-      { name: "Old Deer Park", location: "Old Deer Park, Richmond", latitude: 51.464417, longitude: -0.306973 },
-      { name: "Old Railway Trail, Llangollen", location: "Old Railway Trail", latitude: 52.97016, longitude: -3.160221 },
-      { name: "Oldham", location: "Alexandra Park, Oldham", latitude: 53.534187, longitude: -2.104118 },
-      { name: "Omagh Leisure Complex juniors", location: "Omagh Leisure Complex juniors", latitude: 54.602896, longitude: -7.296192 },
-      { name: "Omagh", location: "Omagh", latitude: 54.602837, longitude: -7.296222 },
-      { name: "Orangefield", location: "Orangefield & Greenville Park", latitude: 54.588509, longitude: -5.884361 },
-      { name: "Oriam", location: "Oriam, Heriot Watt University", latitude: 55.909754, longitude: -3.31715 },
-      { name: "Ormeau juniors", location: "Ormeau Park", latitude: 54.588264, longitude: -5.914541 },
-      { name: "Ormeau", location: "Ormeau Park", latitude: 54.588374, longitude: -5.914786 },
-      { name: "Ormskirk", location: "Edge Hill University", latitude: 53.559245, longitude: -2.868097 },
-      { name: "Orpington", location: "Goddington Park", latitude: 51.365283, longitude: 0.117224 },
-      { name: "Osterley juniors", location: "Osterley Park", latitude: 51.489405, longitude: -0.350722 },
-      { name: "Osterley", location: "Osterley Park", latitude: 51.489403, longitude: -0.349889 },
-      { name: "Oxford", location: "Cutteslowe and Sunnymead Park, Oxford", latitude: 51.790901, longitude: -1.262419 },
-      { name: "Paddington Rec juniors", location: "Paddington Recreation Ground", latitude: 51.529514, longitude: -0.190726 },
-      { name: "Padiham Greenway juniors", location: "Padiham Greenway", latitude: 53.798806, longitude: -2.316739 },
-      { name: "Page Park juniors", location: "Page Park", latitude: 51.482568, longitude: -2.498184 },
-      { name: "Paisley Park", location: "Paisley Park", latitude: 54.604634, longitude: -5.972965 },
-      { name: "Palacerigg Country", location: "Palacerigg Country Park", latitude: 55.937089, longitude: -3.949289 },
-      { name: "Panshanger", location: "Panshanger Park", latitude: 51.798644, longitude: -0.138723 },
-      { name: "Par Track juniors", location: "Par Track", latitude: 50.35373, longitude: -4.702068 },
-      { name: "Park Hill Recreation Ground juniors", location: "Park Hill Recreation Ground", latitude: 51.825562, longitude: -1.289811 },
-      { name: "Park View juniors", location: "QEII Park View Playing Fields", latitude: 53.741051, longitude: -2.960984 },
-      { name: "Park in the Past", location: "Park in the Past", latitude: 53.122311, longitude: -3.047968 },
-      { name: "Parke", location: "Parke Estate", latitude: 50.59305, longitude: -3.686562 },
-      { name: "Pavilion Gardens juniors", location: "Pavilion Gardens juniors", latitude: 53.254996, longitude: -1.919751 },
-      { name: "Pavilion Gardens", location: "The Pavilion Gardens", latitude: 53.254611, longitude: -1.918759 },
-      { name: "Peacehaven juniors", location: "Centenary Park", latitude: 50.794091, longitude: 0.011761 },
-      { name: "Peacehaven", location: "Centenary Park", latitude: 50.794092, longitude: 0.012418 },
-      { name: "Peckham Rye juniors", location: "Peckham Rye Park", latitude: 51.454776, longitude: -0.060295 },
-      { name: "Peckham Rye", location: "Peckham Rye Park", latitude: 51.455486, longitude: -0.060688 },
-      { name: "Peel", location: "Peel Park", latitude: 53.48759, longitude: -2.270682 },
-      { name: "Pegwell Bay", location: "Pegwell Bay", latitude: 51.320957, longitude: 1.361446 },
-      { name: "Penallta juniors", location: "Parc Penallta Country Park", latitude: 51.644903, longitude: -3.245668 },
-      { name: "Penallta", location: "Penallta House", latitude: 51.644889, longitude: -3.245679 },
-      { name: "Pendle", location: "Holt House Playing Fields", latitude: 53.863571, longitude: -2.18011 },
-      { name: "Penistone", location: "Penistone Show Ground", latitude: 53.526568, longitude: -1.635407 },
-      { name: "Pennington Flash", location: "Pennington Flash", latitude: 53.491608, longitude: -2.542745 },
-      { name: "Penrhyn", location: "Penrhyn Castle", latitude: 53.226852, longitude: -4.094495 },
-      { name: "Penrith", location: "Frenchfiel Sports Centre", latitude: 54.658026, longitude: -2.720532 },
-      { name: "Penrose", location: "Penrose", latitude: 50.096824, longitude: -5.281819 },
-      { name: "Penryn Campus", location: "Penryn Campus", latitude: 50.170244, longitude: -5.124008 },
-      { name: "Peoples Park juniors", location: "Peoples Park", latitude: 51.681659, longitude: -4.16873 },
-      { name: "People's Park juniors, Halifax", location: "People's Park", latitude: 53.720161, longitude: -1.873584 },
-      { name: "Perry Hall", location: "Perry Hall Park", latitude: 52.52486, longitude: -1.911825 },
-      { name: "Perth juniors", location: "South Inch", latitude: 56.391357, longitude: -3.435321 },
-      { name: "Perth", location: "North Inch and Riverside parks", latitude: 56.40515, longitude: -3.435422 },
-      { name: "Peter Pan juniors", location: "Peter Pan Park", latitude: 53.738674, longitude: -0.402106 },
-      { name: "Peter Pan", location: "Peter Pan Park", latitude: 53.73833, longitude: -0.402181 },
-      { name: "Phear Park juniors", location: "Phear Park Playing Fields", latitude: 50.625669, longitude: -3.402433 },
-      { name: "Philips Park", location: "Philips Park", latitude: 53.488346, longitude: -2.192484 },
-      { name: "Phoenix juniors", location: "Phoenix Park", latitude: 53.336051, longitude: -2.683428 },
-      { name: "Phoenix", location: "Phoenix Park", latitude: 53.337865, longitude: -2.681623 },
-      { name: "Pilrig Park juniors", location: "Pilrig Park juniors", latitude: 55.968438, longitude: -3.181613 },
-      { name: "Pinehill juniors", location: "Pinehill Park", latitude: 51.948308, longitude: -0.264145 },
-      { name: "Pinner Village Gardens juniors", location: "Pinner Village Gardens", latitude: 51.588085, longitude: -0.377882 },
-      { name: "Pitshanger juniors", location: "Pitshanger Park", latitude: 51.528578, longitude: -0.318553 },
-      { name: "Plas Newydd juniors", location: "Plas Newydd House and Garden", latitude: 53.202361, longitude: -4.217883 },
-      { name: "Play Close Park juniors", location: "Play Close Park", latitude: 52.762765, longitude: -0.886281 },
-      { name: "Plean", location: "Plean Country Park", latitude: 56.057791, longitude: -3.881607 },
-      { name: "Plymvalley", location: "Plymbridge Woods", latitude: 50.409091, longitude: -4.079618 },
-      { name: "Pocket", location: "Pocket Park", latitude: 52.214797, longitude: -0.275327 },
-      { name: "Polkemmet Country", location: "Polkemmet Country Park", latitude: 55.866214, longitude: -3.720256 },
-      { name: "Pollok", location: "Pollok Park, Glasgow", latitude: 55.82992, longitude: -4.307882 },
-      { name: "Pomphrey Hill", location: "Pomphrey Hill Playing Fields", latitude: 51.479321, longitude: -2.47805 },
-      { name: "Pont y Bala", location: "Lower Tryweryn", latitude: 52.912396, longitude: -3.593199 },
-      { name: "Pontefract juniors", location: "Pontefract Park", latitude: 53.696394, longitude: -1.329962 },
-      { name: "Pontefract", location: "Pontefract Racecourse", latitude: 53.697922, longitude: -1.325197 },
-      { name: "Pontypool juniors", location: "Pontypool Park", latitude: 51.701218, longitude: -3.035392 },
-      { name: "Pontypool", location: "Pontypool Park", latitude: 51.699213, longitude: -3.028573 },
-      { name: "Pontypridd juniors", location: "Ynysangharad War Memorial Park", latitude: 51.601625, longitude: -3.337015 }
-    ];
+  // Records from visible layers that share a venue get one marker between them
+  const colocation = useMemo(() => groupColocated(
+    datasets
+      .filter((dataset) => visibility[dataset.id])
+      .flatMap((dataset) => (records[dataset.id] ?? []).map((record) => ({ dataset, record }))),
+    colocationRules,
+  ), [datasets, visibility, records]);
 
-    // Transform data to our format and create parkrun events
-    const events: ParkrunEvent[] = ukParkrunData.map((item, index) => ({
-      id: index + 1,
-      name: item.name,
-      latitude: item.latitude,
-      longitude: item.longitude,
-      country: 'UK',
-      region: item.location,
-      status: 'active'
-    }));
+  const canvas = useMemo(() => {
+    const count = datasets
+      .filter((dataset) => visibility[dataset.id])
+      .reduce((sum, dataset) => sum + (records[dataset.id]?.length ?? 0), 0);
+    return count > canvasThreshold;
+  }, [datasets, visibility, records, canvasThreshold]);
 
-    setParkruns(events);
-    onParkrunCountChange(events.length);
+  // Where each dataset's own markers are, so only the ones in view get drawn
+  const indexes = useMemo(() => new Map(datasets.map((dataset) => [
+    dataset.id,
+    indexPoints((records[dataset.id] ?? []).filter((record) => !colocation.grouped.has(record))),
+  ])), [datasets, records, colocation]);
 
-    toast({
-      title: "UK Parkrun data loaded",
-      description: `Successfully loaded ${events.length} UK parkrun events`,
+  // Records are matched up by id across refreshes. Imported records may
+  // share a name, so repeats are numbered in file order.
+  const recordKeys = useMemo(() => {
+    const keys = new Map<MapPoint, string>();
+    datasets.forEach((dataset) => {
+      const seen = new Map<string, number>();
+      (records[dataset.id] ?? []).forEach((record) => {
+        const id = recordId(record);
+        const count = (seen.get(id) ?? 0) + 1;
+        seen.set(id, count);
+        keys.set(record, count === 1 ? id : `${id}#${count}`);
+      });
     });
-  }, [onParkrunCountChange]);
+    return keys;
+  }, [datasets, records]);
 
-  // Load theme park data from provided static data
+  // Adds the markers coming into view and removes the ones leaving it,
+  // leaving every other marker where it is
   useEffect(() => {
-    const themeParkData = [
-      { wkt: "POINT (-1.5537028 50.9481718)", name: "Paultons Park Home of Peppa Pig World", description: "" },
-      { wkt: "POINT (4.5940362 50.70186030000001)", name: "Walibi Belgium", description: "" },
-      { wkt: "POINT (2.5987627 51.0808505)", name: "Plopsaland De Panne", description: "" },
-      { wkt: "POINT (4.903926 51.20069600000001)", name: "Bobbejaanland", description: "" },
-      { wkt: "POINT (2.5712301 49.1341839)", name: "Astérix Park", description: "" },
-      { wkt: "POINT (6.8765132 50.8015677)", name: "Phantasialand", description: "" },
-      { wkt: "POINT (7.7220076 48.2660194)", name: "Europa-Park", description: "" },
-      { wkt: "POINT (9.8781907 53.0236683)", name: "Heide Park Resort", description: "" },
-      { wkt: "POINT (10.7779549 54.0747687)", name: "Hansa-Park", description: "" },
-      { wkt: "POINT (8.2997784 49.31797170000001)", name: "Holiday Park, Germany", description: "" },
-      { wkt: "POINT (5.0497462 51.6506518)", name: "Efteling", description: "" },
-      { wkt: "POINT (5.7626661 52.440096)", name: "Walibi Holland", description: "" },
-      { wkt: "POINT (4.3842739 52.1474982)", name: "Duinrell", description: "" },
-      { wkt: "POINT (5.9847667 51.39688349999999)", name: "Toverland", description: "" },
-      { wkt: "POINT (19.4108192 49.99938119999999)", name: "Energylandia", description: "" },
-      { wkt: "POINT (18.9914608 50.27340230000001)", name: "Legendia Śląskie Wesołe Miasteczko", description: "" },
-      { wkt: "POINT (10.7137024 45.45494919999999)", name: "Gardaland Resort", description: "" },
-      { wkt: "POINT (12.2633986 44.3378048)", name: "Mirabilandia", description: "" },
-      { wkt: "POINT (1.1530149 41.0956079)", name: "Port Aventura", description: "" },
-      { wkt: "POINT (5.8762633 50.3951009)", name: "Plopsa Coo", description: "" },
-      { wkt: "POINT (5.362369299999999 50.9326023)", name: "Plopsa Indoor Hasselt", description: "" },
-      { wkt: "POINT (15.0836363 52.3498931)", name: "Majaland Kownaty", description: "" },
-      { wkt: "POINT (6.5571307 52.6268548)", name: "Slagharen", description: "" },
-      { wkt: "POINT (12.3153018 51.2517143)", name: "Belantis", description: "" },
-      { wkt: "POINT (4.3522799 52.0527185)", name: "Family park Drievliet", description: "" },
-      { wkt: "POINT (8.437613100000002 51.3086583)", name: "Fort Fun Abenteuerland", description: "" },
-      { wkt: "POINT (11.9924641 57.6952191)", name: "Liseberg", description: "" },
-      { wkt: "POINT (4.9702859 44.0204458)", name: "Parc Spirou Provence", description: "" },
-      { wkt: "POINT (-4.8000809 51.77751800000001)", name: "Oakwood Theme Park", description: "" },
-      { wkt: "POINT (9.137721200000001 55.7330984)", name: "Lalandia i Billund", description: "" },
-      { wkt: "POINT (9.650566799999998 57.2713353)", name: "Fårup Sommerland", description: "" },
-      { wkt: "POINT (12.5777714 55.7752207)", name: "Bakken", description: "" },
-      { wkt: "POINT (9.1268046 55.73551089999999)", name: "LEGOLAND® Billund Resort", description: "" },
-      { wkt: "POINT (1.982817 49.421484)", name: "Parc Saint-Paul", description: "" },
-      { wkt: "POINT (2.2697649 48.8777822)", name: "Jardin d'Acclimatation", description: "" },
-      { wkt: "POINT (2.4065252 48.8301604)", name: "Foire du Trône", description: "" },
-      { wkt: "POINT (6.155997600000001 49.22534950000001)", name: "Walygator Parc", description: "" },
-      { wkt: "POINT (6.727812599999999 48.3247857)", name: "Fraispertuis City", description: "" },
-      { wkt: "POINT (9.052612 49.0352748)", name: "Erlebnispark Tripsdrill", description: "" },
-      { wkt: "POINT (4.610032999999999 48.260641)", name: "Nigloland", description: "" },
-      { wkt: "POINT (12.5681471 55.6736841)", name: "Tivoli Gardens", description: "" },
-      { wkt: "POINT (18.09639 59.32335639999999)", name: "Gröna Lund", description: "" },
-      { wkt: "POINT (2.244231800000001 48.8673051)", name: "Parc Bagatelle - la Roseraie", description: "" },
-      { wkt: "POINT (1.3771916 51.38523310000001)", name: "Dreamland Margate", description: "" },
-      { wkt: "POINT (6.4360833 52.3896276)", name: "AdventurePark Hellendoorn", description: "" },
-      { wkt: "POINT (6.807741099999999 52.2444802)", name: "Attractiepark de Waarbeek", description: "" },
-      { wkt: "POINT (-3.0105711 51.2856227)", name: "Brean Theme Park", description: "" },
-      { wkt: "POINT (-3.592630299999999 40.2316116)", name: "Parque Warner Madrid", description: "" },
-      { wkt: "POINT (12.4465549 41.709931)", name: "Cinecittà World", description: "" },
-      { wkt: "POINT (6.972393299999999 51.62080270000001)", name: "Movie Park Germany", description: "" },
-      { wkt: "POINT (6.170804899999998 51.3999174)", name: "Taurus World of Adventure", description: "" },
-      { wkt: "POINT (16.3990328 58.6605369)", name: "Kolmården", description: "" },
-      { wkt: "POINT (-3.750089200000001 40.4118609)", name: "Parque de Atracciones de Madrid", description: "" },
-      { wkt: "POINT (10.4566002 49.7794639)", name: "Freizeit-Land Geiselwind", description: "" },
-      { wkt: "POINT (12.9560359 41.765255)", name: "Rainbow Magicland", description: "" },
-      { wkt: "POINT (10.5912344 48.0430234)", name: "Allgäu Skyline Park", description: "" },
-      { wkt: "POINT (9.6548616 48.9031029)", name: "Schwaben Park", description: "" },
-      { wkt: "POINT (7.922364999999999 47.899763)", name: "Steinwasen Park", description: "" },
-      { wkt: "POINT (-3.0552927 53.79233)", name: "Blackpool Pleasure Beach", description: "" },
-      { wkt: "POINT (-1.7137723 52.6122148)", name: "Drayton Manor Theme Park", description: "" },
-      { wkt: "POINT (-2.2865696 52.37795920000001)", name: "West Midland Safari Park", description: "" },
-      { wkt: "POINT (-0.5123911999999999 51.40510020000001)", name: "Thorpe Park Resort", description: "" },
-      { wkt: "POINT (-0.3192127 51.3472173)", name: "Chessington World of Adventures Resort", description: "" },
-      { wkt: "POINT (-1.8864512 52.9874366)", name: "Alton Towers", description: "" },
-      { wkt: "POINT (-0.8095307999999998 54.20651209999999)", name: "Flamingo Land Resort", description: "" },
-      { wkt: "POINT (-1.5637592 54.1772234)", name: "Lightwater Valley Family Adventure Park", description: "" },
-      { wkt: "POINT (-0.6500275000000001 51.4638338)", name: "LEGOLAND® Windsor Resort", description: "" },
-      { wkt: "POINT (-0.7084625999999999 52.3868689)", name: "Wicksteed Park", description: "" },
-      { wkt: "POINT (-81.467672 28.4754235)", name: "Universal Studios Florida", description: "" },
-      { wkt: "POINT (-82.4194607 28.037066)", name: "Busch Gardens Tampa Bay", description: "" },
-      { wkt: "POINT (-76.64589749999999 37.236405)", name: "Busch Gardens Williamsburg", description: "" },
-      { wkt: "POINT (-81.6910418 27.9885659)", name: "LEGOLAND® Florida Resort", description: "" },
-      { wkt: "POINT (-81.4555573 28.4654176)", name: "Fun Spot America Theme Parks", description: "" },
-      { wkt: "POINT (0.7166366 51.5329097)", name: "Adventure Island", description: "" },
-      { wkt: "POINT (1.7444031 52.50703189999999)", name: "Pleasurewood Hills Family Theme Park", description: "" },
-      { wkt: "POINT (0.3478341 53.1923981)", name: "Fantasy Island", description: "" },
-      { wkt: "POINT (-118.0002265 33.8443038)", name: "Knott's Berry Farm", description: "" },
-      { wkt: "POINT (-118.5972191 34.42533049999999)", name: "Six Flags Magic Mountain", description: "" },
-      { wkt: "POINT (-6.459472799999999 53.54531419999999)", name: "Emerald Park", description: "" },
-      { wkt: "POINT (-117.2518979 32.770895)", name: "Belmont Park", description: "" },
-      { wkt: "POINT (114.0412819 22.3129666)", name: "Hong Kong Disneyland", description: "" },
-      { wkt: "POINT (114.1721746 22.2346359)", name: "Ocean Park", description: "" },
-      { wkt: "POINT (121.666809 31.14228779999999)", name: "Shanghai Disney Resort", description: "" },
-      { wkt: "POINT (138.7805511 35.4869467)", name: "Fuji-Q Highland", description: "" },
-      { wkt: "POINT (139.8803943 35.6328964)", name: "Tokyo Disneyland", description: "" },
-      { wkt: "POINT (121.213809 31.100754)", name: "Shanghai Happy Valley （North Gate）", description: "" },
-      { wkt: "POINT (55.0038434 24.920732)", name: "MOTIONGATE™ Dubai", description: "" },
-      { wkt: "POINT (55.01002880000001 24.9188049)", name: "Legoland® Dubai", description: "" },
-      { wkt: "POINT (54.6070066 24.4837634)", name: "Ferrari World Abu Dhabi", description: "" },
-      { wkt: "POINT (55.31807140000001 25.0821449)", name: "IMG Worlds of Adventure", description: "" },
-      { wkt: "POINT (-82.6835206 41.482207)", name: "Cedar Point", description: "" },
-      { wkt: "POINT (-98.6105607 29.5991156)", name: "Six Flags Fiesta Texas", description: "" },
-      { wkt: "POINT (-97.0700347 32.75529240000001)", name: "Six Flags Over Texas", description: "" },
-      { wkt: "POINT (-93.33884259999999 36.66702939999999)", name: "Silver Dollar City", description: "" },
-      { wkt: "POINT (-94.48624799999999 39.1765826)", name: "Worlds of Fun", description: "" },
-      { wkt: "POINT (-90.6750181 38.5129856)", name: "Six Flags St. Louis", description: "" },
-      { wkt: "POINT (-86.9158101 38.1187443)", name: "Holiday World & Splashin' Safari", description: "" },
-      { wkt: "POINT (-84.2691423 39.3451798)", name: "Kings Island", description: "" },
-      { wkt: "POINT (-83.5311862 35.7951026)", name: "Dollywood", description: "" },
-      { wkt: "POINT (-84.5497376 33.7698923)", name: "Six Flags Over Georgia", description: "" },
-      { wkt: "POINT (-80.9432798 35.1034041)", name: "Carowinds", description: "" },
-      { wkt: "POINT (-77.44419119999999 37.839871)", name: "Kings Dominion", description: "" },
-      { wkt: "POINT (-79.86188279999999 40.386622)", name: "Kennywood", description: "" },
-      { wkt: "POINT (-79.542908 43.82877239999999)", name: "Canada's Wonderland", description: "" },
-      { wkt: "POINT (-76.5042299 40.8775313)", name: "Knoebels Amusement Resort", description: "" },
-      { wkt: "POINT (-76.65474689999999 40.2887809)", name: "Hersheypark", description: "" },
-      { wkt: "POINT (-74.4361629 40.13606049999999)", name: "Six Flags Great Adventure", description: "" },
-      { wkt: "POINT (-73.9782 40.5752795)", name: "Luna Park in Coney Island", description: "" },
-      { wkt: "POINT (-117.918989 33.810485)", name: "Disneyland Resort", description: "" },
-      { wkt: "POINT (19.4420776 49.9886741)", name: "Zatorland Amusement Park", description: "" },
-      { wkt: "POINT (2.118611 41.4225)", name: "Tibidabo", description: "" },
-      { wkt: "POINT (-115.1565537 36.1475119)", name: "The STRAT Hotel, Casino & SkyPod", description: "" },
-      { wkt: "POINT (16.421699 48.20114510000001)", name: "Wiener Prater", description: "" },
-      { wkt: "POINT (16.6477526 47.8022634)", name: "Familypark Neusiedlersee", description: "" },
-      { wkt: "POINT (2.783593 48.8673858)", name: "Disneyland Paris", description: "" },
-      { wkt: "POINT (-0.1577752 38.5594384)", name: "Terra Mítica", description: "" },
-      { wkt: "POINT (9.617388000000002 52.7508948)", name: "Serengeti Park Hodenhagen - \"Safari Adventure in the middle of Europe\"", description: "" },
-      { wkt: "POINT (-75.53310619999999 40.5784549)", name: "Dorney Park & Wildwater Kingdom", description: "" },
-      { wkt: "POINT (-80.1564393 42.1085805)", name: "Waldameer park", description: "" },
-      { wkt: "POINT (-86.7711219 40.7916253)", name: "Indiana Beach", description: "" },
-      { wkt: "POINT (-89.7963291 43.625026)", name: "Mt. Olympus Resort", description: "" },
-      { wkt: "POINT (-92.31240679999999 42.4430722)", name: "Lost Island Waterpark & Adventure Golf & Go-Karts", description: "" },
-      { wkt: "POINT (-93.49694629999999 41.657646)", name: "Adventureland Resort", description: "" },
-      { wkt: "POINT (-85.74489229999999 38.1977163)", name: "Kentucky Kingdom & Hurricane Bay", description: "" },
-      { wkt: "POINT (-84.42797259999999 33.4963312)", name: "Fun Spot America Theme Parks — Atlanta", description: "" },
-      { wkt: "POINT (103.8238084 1.2540421)", name: "Universal Studios Singapore", description: "" },
-      { wkt: "POINT (153.3131103 -27.906957)", name: "Warner Bros. Movie World", description: "" },
-      { wkt: "POINT (153.0465138 -26.7498623)", name: "Aussie World", description: "" },
-      { wkt: "POINT (153.3175725 -27.9147492)", name: "Wet'n'Wild Gold Coast", description: "" },
-      { wkt: "POINT (153.3152531 -27.8635076)", name: "Dreamworld", description: "" },
-      { wkt: "POINT (153.4257624 -27.95320449999999)", name: "Sea World Resort", description: "" },
-      { wkt: "POINT (144.976924 -37.8678147)", name: "Luna Park Melbourne", description: "" },
-      { wkt: "POINT (101.7948638 3.4247634)", name: "Skytropolis Indoor Theme Park", description: "" },
-      { wkt: "POINT (54.61931519999999 24.4854048)", name: "SeaWorld Abu Dhabi", description: "" }
-    ];
+    if (!map.current || !clusters.current || !viewport) return;
+
+    // Every marker is redrawn when clustering or the canvas is switched on or off
+    const previous = drawnMode.current;
+    const moved = previous.clustered !== clustering || previous.canvas !== canvas;
+    const contextOf = (record: MapPoint): PopupContext => ({ nearbyParkruns: nearbyParkruns?.get(record) });
 
-    // Parse WKT format to extract coordinates
-    const parseWKT = (wkt: string) => {
-      const match = wkt.match(/POINT \(([^\)]+)\)/);
-      if (match) {
-        const coords = match[1].split(' ');
-        return {
-          longitude: parseFloat(coords[0]),
-          latitude: parseFloat(coords[1])
-        };
+    datasets.forEach((dataset) => {
+      let layerGroup = layerGroups.current.get(dataset.id);
+      if (!layerGroup) {
+        layerGroup = new L.LayerGroup().addTo(map.current);
+        layerGroups.current.set(dataset.id, layerGroup);
       }
-      return null;
-    };
 
-    // Transform data to our format
-    const parks: ThemePark[] = themeParkData
-      .map((item) => {
-        const coords = parseWKT(item.wkt);
-        if (!coords) return null;
-        
-        return {
-          name: item.name,
-          latitude: coords.latitude,
-          longitude: coords.longitude,
-          country: 'International' // Could be enhanced with country detection
-        };
-      })
-      .filter((park): park is ThemePark => park !== null);
+      const wanted = new Map<string, MapPoint>();
+      if (visibility[dataset.id]) {
+        indexes.get(dataset.id)?.search(viewport).forEach((record) => wanted.set(recordKeys.get(record), record));
+      }
 
-    setThemeParks(parks);
-    onThemeParkCountChange(parks.length);
-  }, [onThemeParkCountChange]);
+      const current = drawn.current.get(dataset.id) ?? new Map<string, DrawnRecord>();
+      const next = new Map<string, DrawnRecord>();
+      const removed: L.Layer[] = [];
+      current.forEach((entry, key) => {
+        const record = wanted.get(key);
+        if (!moved && record && sameAppearance(entry, appearanceOf(dataset, record, newRecords?.has(record), canvas, contextOf(record)))) {
+          next.set(key, entry);
+        } else {
+          removed.push(...entry.layers);
+        }
+      });
+
+      const added: L.Layer[] = [];
+      wanted.forEach((record, key) => {
+        if (next.has(key)) return;
 
-  // Create custom icons
-  const parkrunIcon = L.divIcon({
-    html: `<div style="background: #16a34a; border-radius: 50%; width: 12px; height: 12px; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
-    iconSize: [16, 16],
-    iconAnchor: [8, 8],
-    className: 'custom-marker'
-  });
+        const appearance = appearanceOf(dataset, record, newRecords?.has(record), canvas, contextOf(record));
+        const layers = createRecordLayers(dataset, appearance, { renderer: canvasRenderer.current });
+        next.set(key, { ...appearance, layers });
+        added.push(...layers);
+      });
 
-  const themeParkIcon = L.divIcon({
-    html: `<div style="background: #0369a1; border-radius: 50%; width: 12px; height: 12px; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
-    iconSize: [16, 16],
-    iconAnchor: [8, 8],
-    className: 'custom-marker'
-  });
+      removeLayers(previous.clustered ? clusters.current : layerGroup, removed);
+      addLayers(clustering ? clusters.current : layerGroup, added);
+      drawn.current.set(dataset.id, next);
+    });
 
-  // Update parkrun markers
+    drawnMode.current = { clustered: clustering, canvas };
+
+    // The record's marker is the last of its layers. Records sharing a
+    // marker aren't drawn here, and their shared marker is right in view.
+    const pending = pendingPopup.current;
+    const layers = pending && drawn.current.get(pending.datasetId)?.get(pending.key)?.layers;
+    const target = layers?.[layers.length - 1];
+    pendingPopup.current = null;
+    if (target) {
+      if (clustering) clusters.current.zoomToShowLayer(target as L.Marker, () => target.openPopup());
+      else target.openPopup();
+    }
+  }, [datasets, visibility, indexes, recordKeys, newRecords, nearbyParkruns, clustering, canvas, viewport]);
+
+  // Shared markers, spread out around their centre once zoomed in far enough
+  // to tell the members apart
   useEffect(() => {
-    if (!map.current) return;
+    if (!map.current || !clusters.current || !groupLayer.current) return;
+
+    redraw(map.current, clusters.current, groupLayer.current, clustering, (layer) => {
+      colocation.groups.forEach(({ latitude, longitude, members }) => {
+        if (!spiderfy || zoom < SPIDERFY_ZOOM) {
+          const icon = createGroupIcon(members.map(({ dataset }) => dataset.colour));
+          const marker = L.marker([latitude, longitude], {
+            icon: members.some(({ record }) => newRecords?.has(record)) ? withNewBadge(icon) : icon,
+          });
+          marker.bindPopup(members
+            .map(({ dataset, record }) => dataset.renderPopup(record, { nearbyParkruns: nearbyParkruns?.get(record) }))
+            .join('<hr />'));
+          markerColours.set(marker, members.map(({ dataset }) => dataset.colour));
+          layer.addLayer(marker);
+          return;
+        }
 
-    parkrunLayerGroup.current.clearLayers();
+        const centre = map.current.project([latitude, longitude], zoom);
+        members.forEach(({ dataset, record }, index) => {
+          const angle = (2 * Math.PI * index) / members.length - Math.PI / 2;
+          const position = map.current.unproject(
+            centre.add([Math.cos(angle) * SPIDER_LEG_LENGTH, Math.sin(angle) * SPIDER_LEG_LENGTH]),
+            zoom,
+          );
 
-    if (showParkruns) {
-      parkruns.forEach((parkrun) => {
-        const marker = L.marker([parkrun.latitude, parkrun.longitude], {
-          icon: parkrunIcon
+          layer.addLayer(L.polyline([[latitude, longitude], position], { color: dataset.colour, weight: 2, opacity: 0.6 }));
+          const context = { nearbyParkruns: nearbyParkruns?.get(record) };
+          createRecordLayers(dataset, appearanceOf(dataset, record, newRecords?.has(record), canvas, context), {
+            position,
+            renderer: canvasRenderer.current,
+          }).forEach((member) => layer.addLayer(member));
         });
-        
-        marker.bindPopup(`
-          <div class="p-2">
-            <h3 class="font-semibold text-green-700">${parkrun.name}</h3>
-            <p class="text-sm text-gray-600">${parkrun.region}, ${parkrun.country}</p>
-            <p class="text-xs text-gray-500">Status: ${parkrun.status}</p>
-          </div>
-        `);
-        
-        parkrunLayerGroup.current.addLayer(marker);
       });
-    }
-  }, [showParkruns, parkruns]);
+    });
+  }, [colocation, spiderfy, zoom, newRecords, nearbyParkruns, clustering, canvas]);
 
-  // Update theme park markers
+  // Heatmaps keep their layer while only the radius or intensity changes
   useEffect(() => {
     if (!map.current) return;
 
-    themeParkLayerGroup.current.clearLayers();
+    datasets.forEach((dataset) => {
+      const settings = heatmaps?.[dataset.id];
+      const datasetRecords = records[dataset.id] ?? [];
+      const current = drawnHeatmaps.current.get(dataset.id);
 
-    if (showThemeParks) {
-      themeParks.forEach((park) => {
-        const marker = L.marker([park.latitude, park.longitude], {
-          icon: themeParkIcon
-        });
-        
-        marker.bindPopup(`
-          <div class="p-2">
-            <h3 class="font-semibold text-blue-700">${park.name}</h3>
-            <p class="text-sm text-gray-600">${park.state ? `${park.state}, ` : ''}${park.country}</p>
-          </div>
-        `);
-        
-        themeParkLayerGroup.current.addLayer(marker);
-      });
-    }
-  }, [showThemeParks, themeParks]);
+      if (current && (!settings || current.records !== datasetRecords)) {
+        map.current.removeLayer(current.layer);
+        drawnHeatmaps.current.delete(dataset.id);
+      }
+      if (!settings) return;
+
+      const kept = drawnHeatmaps.current.get(dataset.id);
+      if (kept) {
+        kept.layer.setOptions(heatmapOptions(dataset.colour, settings));
+      } else {
+        const layer = createHeatmap(dataset.colour, datasetRecords, settings).addTo(map.current);
+        drawnHeatmaps.current.set(dataset.id, { layer, records: datasetRecords });
+      }
+    });
+  }, [datasets, records, heatmaps]);
+
+  useEffect(() => {
+    if (!map.current || !focus) return;
+    map.current.flyTo([focus.latitude, focus.longitude], Math.max(map.current.getZoom(), FOCUS_ZOOM));
+  }, [focus]);
 
   return (
-    <div className="relative w-full h-screen">
+    <div className="relative isolate w-full h-screen">
       <div 
         ref={mapContainer} 
         className="absolute inset-0 rounded-lg" 
@@ -1260,4 +495,4 @@ export function InteractiveMap({
       />
     </div>
   );
-}
\ No newline at end of file
+}
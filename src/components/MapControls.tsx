@@ -1,51 +1,222 @@
+import { useRef } from "react";
+import { Download, Flame, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { MapPin, TreePine } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ValidationReportDialog } from "@/components/ValidationReportDialog";
+import type { DatasetDefinition } from "@/lib/datasets";
+import { exportFormats, type ExportFormat } from "@/lib/exports";
+import { applyFilters, filterOptions, isFiltered, SHOW_ALL, type FilterSelection } from "@/lib/filters";
+import {
+  DEFAULT_HEATMAP,
+  HEATMAP_INTENSITY_RANGE,
+  HEATMAP_RADIUS_RANGE,
+  type HeatmapSelection,
+  type HeatmapSettings,
+} from "@/lib/heatmap";
+import { IMPORT_ACCEPT } from "@/lib/imports";
+import type { MapPoint } from "@/lib/types";
+import type { ValidationReport } from "@/lib/validation";
+
+const ALL = "all";
 
 interface MapControlsProps {
-  showParkruns: boolean;
-  showThemeParks: boolean;
-  onToggleParkruns: () => void;
-  onToggleThemeParks: () => void;
-  parkrunCount: number;
-  themeParkCount: number;
+  datasets: DatasetDefinition[];
+  visibility: Record<string, boolean>;
+  reports: Record<string, ValidationReport>;
+  records: Record<string, MapPoint[]>;
+  filters: FilterSelection;
+  heatmaps: HeatmapSelection;
+  spiderfy: boolean;
+  clustering: boolean;
+  onToggle: (datasetId: string) => void;
+  onFilterChange: (datasetId: string, filterId: string, value: string | undefined) => void;
+  onHeatmapChange: (datasetId: string, settings: HeatmapSettings | undefined) => void;
+  onSpiderfyChange: (spiderfy: boolean) => void;
+  onClusteringChange: (clustering: boolean) => void;
+  onImport: (file: File) => void;
+  onExport: (format: ExportFormat) => void;
 }
 
 export function MapControls({
-  showParkruns,
-  showThemeParks,
-  onToggleParkruns,
-  onToggleThemeParks,
-  parkrunCount,
-  themeParkCount,
+  datasets,
+  visibility,
+  reports,
+  records,
+  filters,
+  heatmaps,
+  spiderfy,
+  clustering,
+  onToggle,
+  onFilterChange,
+  onHeatmapChange,
+  onSpiderfyChange,
+  onClusteringChange,
+  onImport,
+  onExport,
 }: MapControlsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
   return (
-    <Card className="absolute top-4 right-4 z-[1000] p-4 shadow-glass backdrop-blur-md bg-white/90 border border-white/20">
+    <Card className="absolute top-4 right-4 z-40 p-4 shadow-glass backdrop-blur-md bg-white/90 border border-white/20">
       <div className="space-y-3">
         <h3 className="font-semibold text-foreground text-lg">Map Layers</h3>
         
         <div className="space-y-2">
+          {datasets.map((dataset) => {
+            const Icon = dataset.controlIcon;
+            const report = reports[dataset.id];
+            const datasetRecords = records[dataset.id] ?? [];
+            const heatmap = heatmaps[dataset.id];
+            const count = isFiltered(dataset, datasetRecords, filters)
+              ? `${applyFilters(dataset, datasetRecords, filters).length} of ${report?.valid ?? 0}`
+              : report?.valid ?? 0;
+
+            return (
+              <div key={dataset.id} className="space-y-1">
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={visibility[dataset.id] ? dataset.buttonVariant ?? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => onToggle(dataset.id)}
+                    className="flex-1 justify-start gap-2"
+                  >
+                    <Icon
+                      className="w-4 h-4"
+                      style={dataset.buttonVariant ? undefined : { color: dataset.colour, fill: dataset.colour }}
+                    />
+                    {dataset.label} ({count})
+                  </Button>
+                  <Button
+                    variant={heatmap ? "secondary" : "ghost"}
+                    size="sm"
+                    className="px-2"
+                    title={heatmap ? "Hide heatmap" : "Show heatmap"}
+                    aria-pressed={Boolean(heatmap)}
+                    onClick={() => onHeatmapChange(dataset.id, heatmap ? undefined : DEFAULT_HEATMAP)}
+                  >
+                    <Flame className="w-4 h-4" style={{ color: dataset.colour }} />
+                  </Button>
+                  {report && report.issues.length > 0 && (
+                    <ValidationReportDialog label={dataset.label} report={report} />
+                  )}
+                </div>
+                {heatmap && (
+                  <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-1 px-2 py-1">
+                    <Label className="text-xs">Radius</Label>
+                    <Slider
+                      {...HEATMAP_RADIUS_RANGE}
+                      value={[heatmap.radius]}
+                      aria-label={`${dataset.label} heatmap radius`}
+                      onValueChange={([radius]) => onHeatmapChange(dataset.id, { ...heatmap, radius })}
+                    />
+                    <Label className="text-xs">Intensity</Label>
+                    <Slider
+                      {...HEATMAP_INTENSITY_RANGE}
+                      value={[heatmap.intensity]}
+                      aria-label={`${dataset.label} heatmap intensity`}
+                      onValueChange={([intensity]) => onHeatmapChange(dataset.id, { ...heatmap, intensity })}
+                    />
+                  </div>
+                )}
+                {visibility[dataset.id] && datasetRecords.length > 0 && dataset.filters?.map((filter) => {
+                  const selected = filters[dataset.id]?.[filter.id];
+                  // Options narrow to what the other filters leave, but the
+                  // current choice stays listed so it can still be seen
+                  const options = filterOptions(filter, applyFilters(dataset, datasetRecords, filters, filter.id));
+                  if (selected && selected !== SHOW_ALL && !options.includes(selected)) options.unshift(selected);
+                  // Nothing to choose between, such as course details no event has
+                  if (options.length === 0) return null;
+
+                  return (
+                    <Select
+                      key={filter.id}
+                      value={selected ?? ALL}
+                      onValueChange={(value) => onFilterChange(dataset.id, filter.id, value === ALL ? undefined : value)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>{filter.allLabel}</SelectItem>
+                        {filter.showAllLabel && <SelectItem value={SHOW_ALL}>{filter.showAllLabel}</SelectItem>}
+                        {options.map((option) => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="spiderfy" checked={spiderfy} onCheckedChange={onSpiderfyChange} />
+          <Label htmlFor="spiderfy" className="text-xs">Separate shared venues when zoomed in</Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="clustering" checked={clustering} onCheckedChange={onClusteringChange} />
+          <Label htmlFor="clustering" className="text-xs">Group crowded areas into clusters</Label>
+        </div>
+
+        <div className="flex gap-2 border-t border-border pt-3">
+          <input
+            ref={fileInput}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onImport(file);
+              event.target.value = "";
+            }}
+          />
           <Button
-            variant={showParkruns ? "nature" : "ghost"}
-            size="sm"
-            onClick={onToggleParkruns}
-            className="w-full justify-start gap-2"
-          >
-            <TreePine className="w-4 h-4" />
-            Parkruns ({parkrunCount})
-          </Button>
-          
-          <Button
-            variant={showThemeParks ? "adventure" : "ghost"}
+            variant="outline"
             size="sm"
-            onClick={onToggleThemeParks}
-            className="w-full justify-start gap-2"
+            onClick={() => fileInput.current?.click()}
+            className="flex-1 gap-2"
           >
-            <MapPin className="w-4 h-4" />
-            Theme Parks ({themeParkCount})
+            <Upload className="w-4 h-4" />
+            Import
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="flex-1 gap-2">
+                <Download className="w-4 h-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Download visible layers</DropdownMenuLabel>
+              {exportFormats.map((format) => (
+                <DropdownMenuItem key={format.id} onSelect={() => onExport(format)}>
+                  {format.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
     </Card>
   );
-}
\ No newline at end of file
+}
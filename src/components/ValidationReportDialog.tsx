@@ -0,0 +1,75 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ValidationReport } from "@/lib/validation";
+
+interface ValidationReportDialogProps {
+  label: string;
+  report: ValidationReport;
+}
+
+export function ValidationReportDialog({ label, report }: ValidationReportDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="px-2 text-amber-600"
+          title={`${report.issues.length} validation issues`}
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {report.issues.length}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{label} validation report</DialogTitle>
+          <DialogDescription>
+            {report.valid} of {report.total} rows loaded. Rows with issues are left off the map.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-96">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-36">Row</TableHead>
+                <TableHead className="w-32">Field</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.issues.map((issue, index) => (
+                <TableRow key={`${issue.row}-${issue.field}-${index}`}>
+                  <TableCell>
+                    {/* Row 0 is a problem with the whole file */}
+                    {issue.row > 0 && issue.row}
+                    {issue.source && <span className="block text-xs text-muted-foreground">{issue.source}</span>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{issue.field}</TableCell>
+                  <TableCell>{issue.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
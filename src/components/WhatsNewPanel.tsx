@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Sparkles, X } from "lucide-react";
+import type { MapFocus } from "@/components/InteractiveMap";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DatasetDefinition } from "@/lib/datasets";
+import { recordId } from "@/lib/slugs";
+import { countChanges, NEW_BADGE_PERIODS, type DatasetChanges } from "@/lib/whats-new";
+
+interface WhatsNewPanelProps {
+  datasets: DatasetDefinition[];
+  changes: Record<string, DatasetChanges>;
+  badgeDays: number;
+  onBadgeDaysChange: (days: number) => void;
+  onFocus: (focus: MapFocus) => void;
+}
+
+interface ChangeListProps {
+  title: string;
+  entries: { key: string; label: string; focus: MapFocus }[];
+  onFocus: (focus: MapFocus) => void;
+}
+
+function ChangeList({ title, entries, onFocus }: ChangeListProps) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground">{title} ({entries.length})</p>
+      <ul>
+        {entries.map(({ key, label, focus }) => (
+          <li key={key}>
+            <button
+              type="button"
+              className="w-full truncate text-left text-xs hover:underline"
+              onClick={() => onFocus(focus)}
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Events and parks added, removed or moved since the last visit
+export function WhatsNewPanel({ datasets, changes, badgeDays, onBadgeDaysChange, onFocus }: WhatsNewPanelProps) {
+  const [open, setOpen] = useState(false);
+  const changed = datasets.filter((dataset) => changes[dataset.id] && countChanges(changes[dataset.id]) > 0);
+  const total = changed.reduce((sum, dataset) => sum + countChanges(changes[dataset.id]), 0);
+
+  if (!open) {
+    return (
+      <Button variant="glass" size="sm" className="absolute bottom-6 left-4 z-40" onClick={() => setOpen(true)}>
+        <Sparkles className="w-4 h-4" />
+        What's new
+        {total > 0 && <Badge className="ml-1 px-1.5 py-0">{total}</Badge>}
+      </Button>
+    );
+  }
+
+  return (
+    <Card className="absolute bottom-6 left-4 z-40 w-72 p-4 shadow-glass backdrop-blur-md bg-white/90 border border-white/20">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-foreground">What's new</h3>
+        <Button variant="ghost" size="sm" className="px-2" title="Close" onClick={() => setOpen(false)}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {changed.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing has changed since your last visit.</p>
+      ) : (
+        <ScrollArea className="max-h-72">
+          <div className="space-y-3 pr-3">
+            {changed.map((dataset) => {
+              const { added, removed, relocated } = changes[dataset.id];
+
+              return (
+                <div key={dataset.id} className="space-y-1">
+                  <h4 className="text-sm font-medium" style={{ color: dataset.colour }}>{dataset.label}</h4>
+                  <ChangeList
+                    title="Added"
+                    entries={added.map((record) => ({ key: recordId(record), label: record.name, focus: record }))}
+                    onFocus={onFocus}
+                  />
+                  <ChangeList
+                    title="Removed"
+                    entries={removed.map((entry) => ({ key: entry.id, label: entry.name, focus: entry }))}
+                    onFocus={onFocus}
+                  />
+                  <ChangeList
+                    title="Moved"
+                    entries={relocated.map(({ id, name, to, distanceKm }) => ({
+                      key: id,
+                      label: `${name} (${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km)`,
+                      focus: to,
+                    }))}
+                    onFocus={onFocus}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      <div className="mt-3 space-y-1 border-t border-border pt-3">
+        <Label htmlFor="new-badge-days" className="text-xs">Mark new entries for</Label>
+        <Select value={String(badgeDays)} onValueChange={(value) => onBadgeDaysChange(Number(value))}>
+          <SelectTrigger id="new-badge-days" className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NEW_BADGE_PERIODS.map(({ days, label }) => (
+              <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useCallback } from "react"
+import { useQueries, type UseQueryResult } from "@tanstack/react-query"
+
+import { toast } from "@/hooks/use-toast"
+import { DatasetFormatError } from "@/lib/csv"
+import { loadDataset, readCachedDataset, type CachedDataset, type LoadedDataset } from "@/lib/dataset-cache"
+import type { DatasetDefinition } from "@/lib/datasets"
+import type { MapPoint } from "@/lib/types"
+import type { ValidationReport } from "@/lib/validation"
+
+const REFRESH_INTERVAL = 30 * 60 * 1000
+
+async function refreshDataset(dataset: DatasetDefinition): Promise<LoadedDataset> {
+  try {
+    const loaded = await loadDataset(dataset)
+    const { report } = loaded
+
+    if (loaded.changed && dataset.loadedToast) {
+      const skipped = report.total - report.valid
+      const description = dataset.loadedToast.description(report.valid)
+
+      toast({
+        title: loaded.previous ? `${dataset.label} updated` : dataset.loadedToast.title,
+        description: skipped > 0 ? `${description}, skipped ${skipped} invalid rows` : description,
+      })
+    }
+
+    return loaded
+  } catch (error) {
+    toast({
+      title: `Could not load ${dataset.label.toLowerCase()} data`,
+      description: error instanceof DatasetFormatError && dataset.formatHint
+        ? `${error.message}. ${dataset.formatHint}`
+        : (error as Error).message,
+      variant: "destructive",
+    })
+    throw error
+  }
+}
+
+type DatasetQueryResult = UseQueryResult<LoadedDataset | CachedDataset | null>
+
+// Serves each dataset from IndexedDB straight away while a fresh copy loads
+// in the background; the fresh copy replaces it once ready
+export function useDatasets(datasets: DatasetDefinition[]) {
+  const combine = useCallback((results: DatasetQueryResult[]) => {
+    const records: Record<string, MapPoint[]> = {}
+    const reports: Record<string, ValidationReport> = {}
+    // Datasets that failed to load and have no cached copy to fall back on
+    const errors: Record<string, Error> = {}
+
+    datasets.forEach((dataset, index) => {
+      const cached = results[index].data
+      const fresh = results[datasets.length + index]
+      const current = fresh.data ?? cached
+      if (!current) {
+        if (fresh.error) errors[dataset.id] = fresh.error
+        return
+      }
+
+      records[dataset.id] = current.records
+      reports[dataset.id] = current.report
+    })
+
+    return { records, reports, errors }
+  }, [datasets])
+
+  return useQueries({
+    queries: [
+      ...datasets.map((dataset) => ({
+        queryKey: ["dataset-cache", dataset.id, dataset.version],
+        queryFn: () => readCachedDataset(dataset.id, dataset.version),
+        enabled: dataset.version !== undefined,
+        staleTime: Infinity,
+      })),
+      ...datasets.map((dataset) => ({
+        queryKey: ["dataset", dataset.id, dataset.version],
+        queryFn: () => refreshDataset(dataset),
+        // Imported layers never change, so only published datasets refresh
+        staleTime: dataset.version === undefined ? Infinity : REFRESH_INTERVAL,
+        retry: false,
+      })),
+    ],
+    combine,
+  })
+}
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import type { DatasetDefinition } from "@/lib/datasets"
+import { recordId } from "@/lib/slugs"
+import type { MapPoint } from "@/lib/types"
+import {
+  diffDataset,
+  fingerprintDataset,
+  isNew,
+  readNewBadgeDays,
+  readSeenDatasets,
+  readVisitBaseline,
+  writeNewBadgeDays,
+  writeSeenDatasets,
+  type DatasetChanges,
+  type SeenDatasets,
+} from "@/lib/whats-new"
+
+// Compares the published datasets with what they held on the last visit,
+// then remembers them for the next one. The last visit is kept for the
+// whole of this one, so the cached copy, the refreshed one and a return
+// from another page are all compared with the same thing.
+export function useWhatsNew(datasets: DatasetDefinition[], records: Record<string, MapPoint[]>) {
+  const [previous] = useState(readVisitBaseline)
+  const [now] = useState(Date.now)
+  const [badgeDays, setBadgeDaysState] = useState(readNewBadgeDays)
+
+  // Imported layers have no version and nothing to compare with
+  const loaded = useMemo(
+    () => datasets.filter((dataset) => dataset.version !== undefined && records[dataset.id]),
+    [datasets, records],
+  )
+
+  const seen = useMemo<SeenDatasets>(() => Object.fromEntries(
+    loaded.map((dataset) => [dataset.id, fingerprintDataset(previous[dataset.id], records[dataset.id], now)]),
+  ), [loaded, previous, records, now])
+
+  const changes = useMemo<Record<string, DatasetChanges>>(() => Object.fromEntries(
+    loaded.map((dataset) => [dataset.id, diffDataset(previous[dataset.id], records[dataset.id])]),
+  ), [loaded, previous, records])
+
+  const newRecords = useMemo(() => new Set(loaded.flatMap((dataset) =>
+    records[dataset.id].filter((record) => isNew(seen[dataset.id][recordId(record)], badgeDays, now)),
+  )), [loaded, records, seen, badgeDays, now])
+
+  useEffect(() => {
+    // Datasets that failed to load keep what was stored for them last time
+    if (Object.keys(seen).length > 0) writeSeenDatasets({ ...readSeenDatasets(), ...seen })
+  }, [seen])
+
+  const setBadgeDays = useCallback((days: number) => {
+    writeNewBadgeDays(days)
+    setBadgeDaysState(days)
+  }, [])
+
+  return { changes, newRecords, badgeDays, setBadgeDays }
+}
@@ -0,0 +1,108 @@
+import type { FeatureCollection, Position } from 'geojson';
+import { distanceToPolygon, pointInPolygon } from '@/lib/geometry';
+
+// Simplified outlines built by scripts/build-boundaries.mjs
+export const COUNTRY_BOUNDARIES_URL = '/boundaries/countries.json';
+export const REGION_BOUNDARIES_URL = '/boundaries/regions.json';
+export const UK_COUNTY_BOUNDARIES_URL = '/boundaries/uk-counties.json';
+
+// Points this close to a boundary still belong to it. Simplified coastlines
+// cut off piers, harbours and small islands, and plenty of parks sit on them.
+const MAX_DISTANCE_KM = 25;
+// Roughly MAX_DISTANCE_KM of latitude, used to widen bounding boxes for the fallback.
+// Longitude degrees shrink towards the poles, so that side is scaled up.
+const MARGIN_DEGREES = 0.25;
+
+export interface Boundary {
+  code: string;
+  name: string;
+  // Name of the country a first-level division belongs to, or the nation
+  // for UK counties
+  country?: string;
+}
+
+interface IndexedBoundary {
+  boundary: Boundary;
+  // [west, south, east, north]
+  bbox: [number, number, number, number];
+  polygons: Position[][][];
+}
+
+export interface BoundaryIndex {
+  // The boundary containing a [longitude, latitude] position, or else the
+  // nearest one within maxDistance kilometres
+  locate(position: Position, maxDistance?: number): Boundary | null;
+  // Every boundary containing the position or within maxDistance kilometres of it
+  near(position: Position, maxDistance: number): Boundary[];
+}
+
+function withinBox([x, y]: Position, [west, south, east, north]: IndexedBoundary['bbox'], margin = 0) {
+  const xMargin = margin / Math.cos((y * Math.PI) / 180);
+  return x >= west - xMargin && x <= east + xMargin && y >= south - margin && y <= north + margin;
+}
+
+export function indexBoundaries(collection: FeatureCollection): BoundaryIndex {
+  const boundaries: IndexedBoundary[] = collection.features.flatMap(({ properties, geometry }) => {
+    if (geometry?.type !== 'Polygon' && geometry?.type !== 'MultiPolygon') return [];
+
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const outer = polygons.flatMap((rings) => rings[0]);
+    const xs = outer.map(([x]) => x);
+    const ys = outer.map(([, y]) => y);
+
+    return [{
+      boundary: { code: String(properties?.code ?? ''), name: String(properties?.name ?? ''), country: properties?.country },
+      bbox: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+      polygons,
+    }];
+  });
+
+  return {
+    locate: (position, maxDistance = MAX_DISTANCE_KM) => {
+      const inside = boundaries.find(({ bbox, polygons }) =>
+        withinBox(position, bbox) && polygons.some((rings) => pointInPolygon(position, rings)),
+      );
+      if (inside || maxDistance <= 0) return inside?.boundary ?? null;
+
+      let nearest: Boundary | null = null;
+      let nearestDistance = maxDistance;
+      boundaries
+        .filter(({ bbox }) => withinBox(position, bbox, (MARGIN_DEGREES * maxDistance) / MAX_DISTANCE_KM))
+        .forEach(({ boundary, polygons }) => {
+          polygons.forEach((rings) => {
+            const distance = distanceToPolygon(position, rings);
+            if (distance <= nearestDistance) {
+              nearest = boundary;
+              nearestDistance = distance;
+            }
+          });
+        });
+      return nearest;
+    },
+    near: (position, maxDistance) => boundaries
+      .filter(({ bbox, polygons }) =>
+        withinBox(position, bbox, (MARGIN_DEGREES * maxDistance) / MAX_DISTANCE_KM) &&
+        polygons.some((rings) => pointInPolygon(position, rings) || distanceToPolygon(position, rings) <= maxDistance),
+      )
+      .map(({ boundary }) => boundary),
+  };
+}
+
+const loads = new Map<string, Promise<BoundaryIndex>>();
+
+// Boundary files are fetched once per page load and shared by every dataset
+export function loadBoundaries(url: string): Promise<BoundaryIndex> {
+  let load = loads.get(url);
+  if (!load) {
+    load = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to fetch ${url} (${response.status})`);
+        return response.json();
+      })
+      .then(indexBoundaries);
+    // Let a later load try again after a failure
+    load.catch(() => loads.delete(url));
+    loads.set(url, load);
+  }
+  return load;
+}
@@ -0,0 +1,82 @@
+import type { DatasetDefinition } from '@/lib/datasets';
+import { haversineDistance, KM_PER_DEGREE } from '@/lib/geometry';
+import type { MapPoint } from '@/lib/types';
+
+export interface PlacedRecord {
+  dataset: DatasetDefinition;
+  record: MapPoint;
+}
+
+// Records from different layers that are close together and belong to the
+// same place share one marker instead of overlapping
+export interface ColocationRule<T extends MapPoint = MapPoint> {
+  datasetIds: string[];
+  distanceKm: number;
+  sameVenue(a: T, b: T): boolean;
+}
+
+export interface ColocatedGroup {
+  // Midpoint of the members, where the combined marker goes
+  latitude: number;
+  longitude: number;
+  members: PlacedRecord[];
+}
+
+export interface Colocation {
+  groups: ColocatedGroup[];
+  // Every record drawn by a group rather than its own marker
+  grouped: Set<MapPoint>;
+}
+
+function groupByRule(placed: PlacedRecord[], rule: ColocationRule): ColocatedGroup[] {
+  const candidates = placed
+    .filter(({ dataset }) => rule.datasetIds.includes(dataset.id))
+    .sort((a, b) => a.record.latitude - b.record.latitude);
+
+  // Union-find over candidate indexes, so chains of links end up together
+  const parents = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    if (parents[index] !== index) parents[index] = find(parents[index]);
+    return parents[index];
+  };
+
+  // Sorting by latitude means each record only needs comparing with the
+  // ones after it until they're too far north to match
+  const window = rule.distanceKm / KM_PER_DEGREE;
+  candidates.forEach((a, i) => {
+    for (let j = i + 1; j < candidates.length && candidates[j].record.latitude - a.record.latitude <= window; j++) {
+      const b = candidates[j];
+      if (
+        a.dataset.id !== b.dataset.id &&
+        haversineDistance([a.record.longitude, a.record.latitude], [b.record.longitude, b.record.latitude]) <= rule.distanceKm &&
+        rule.sameVenue(a.record, b.record)
+      ) {
+        parents[find(j)] = find(i);
+      }
+    }
+  });
+
+  const components = new Map<number, PlacedRecord[]>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    components.set(root, [...(components.get(root) ?? []), candidate]);
+  });
+
+  return [...components.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => ({
+      latitude: members.reduce((sum, { record }) => sum + record.latitude, 0) / members.length,
+      longitude: members.reduce((sum, { record }) => sum + record.longitude, 0) / members.length,
+      // Keep members in layer order so popups always list them the same way
+      members: members.sort((a, b) => rule.datasetIds.indexOf(a.dataset.id) - rule.datasetIds.indexOf(b.dataset.id)),
+    }));
+}
+
+export function groupColocated(placed: PlacedRecord[], rules: ColocationRule[]): Colocation {
+  const groups = rules.flatMap((rule) => groupByRule(placed, rule));
+
+  return {
+    groups,
+    grouped: new Set(groups.flatMap(({ members }) => members.map(({ record }) => record))),
+  };
+}
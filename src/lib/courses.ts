@@ -0,0 +1,89 @@
+import { fetchCsv } from '@/lib/csv';
+import { parseEventDetailsCsv, type EventDetailsList } from '@/lib/event-details';
+import type { CourseSurface, CourseTerrain, ParkrunEvent } from '@/lib/types';
+
+export const COURSE_CSV_URL = '/parkrun-courses.csv';
+
+export const COURSE_SURFACE_LABELS: Record<CourseSurface, string> = {
+  tarmac: 'Tarmac',
+  trail: 'Trail',
+  grass: 'Grass',
+  mixed: 'Mixed surface',
+};
+
+export const COURSE_TERRAIN_LABELS: Record<CourseTerrain, string> = {
+  flat: 'Flat',
+  undulating: 'Undulating',
+  hilly: 'Hilly',
+};
+
+type CourseFields = Pick<ParkrunEvent, 'surface' | 'terrain' | 'laps' | 'elevationGain' | 'buggyFriendly'>;
+
+export type CourseList = EventDetailsList<CourseFields>;
+
+// 'yes', 'no' and the like; anything else is unknown
+export function parseYesNo(text: string | undefined): boolean | undefined {
+  const value = text?.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(value)) return true;
+  if (['no', 'n', 'false', '0'].includes(value)) return false;
+  return undefined;
+}
+
+export const lapsLabel = (laps: number) => `${laps} ${laps === 1 ? 'lap' : 'laps'}`;
+
+// Bands of total climb, named so the filter lists them from flattest up
+export function elevationBand(elevationGain: number): string {
+  if (elevationGain < 20) return '0–20 m climb';
+  if (elevationGain <= 50) return '20–50 m climb';
+  return 'Over 50 m climb';
+}
+
+export const buggyLabel = (buggyFriendly: boolean) => (buggyFriendly ? 'Buggy friendly' : 'Not buggy friendly');
+
+// parkrun-courses.csv describes the course of each event it lists, by id:
+// id, surface, terrain, laps, elevation (total climb in metres),
+// buggy_friendly. Blank cells are left unknown.
+export function parseCourseCsv(text: string, source = COURSE_CSV_URL): CourseList {
+  return parseEventDetailsCsv<CourseFields>(text, source, (item, id) => {
+    const surface = item.surface?.trim().toLowerCase() || undefined;
+    const terrain = item.terrain?.trim().toLowerCase() || undefined;
+    const laps = item.laps?.trim() ? Number(item.laps) : undefined;
+    const elevationGain = item.elevation?.trim() ? Number(item.elevation) : undefined;
+    const buggy = item.buggy_friendly?.trim() || undefined;
+    const buggyFriendly = parseYesNo(buggy);
+
+    if (surface && !(surface in COURSE_SURFACE_LABELS)) return `Unknown surface "${item.surface}" for ${id}`;
+    if (terrain && !(terrain in COURSE_TERRAIN_LABELS)) return `Unknown terrain "${item.terrain}" for ${id}`;
+    if (laps !== undefined && !(Number.isInteger(laps) && laps > 0)) return `Laps "${item.laps}" for ${id} isn't a whole number`;
+    if (elevationGain !== undefined && !(elevationGain >= 0)) return `Elevation "${item.elevation}" for ${id} isn't a number of metres`;
+    if (buggy && buggyFriendly === undefined) return `Buggy friendly "${buggy}" for ${id} isn't yes or no`;
+
+    return {
+      ...(surface && { surface: surface as CourseSurface }),
+      ...(terrain && { terrain: terrain as CourseTerrain }),
+      ...(laps !== undefined && { laps }),
+      ...(elevationGain !== undefined && { elevationGain }),
+      ...(buggyFriendly !== undefined && { buggyFriendly }),
+    };
+  });
+}
+
+export async function loadCourses(url = COURSE_CSV_URL): Promise<CourseList> {
+  return parseCourseCsv(await fetchCsv(url), url);
+}
+
+// "Trail, hilly, 2 laps, 45 m climb, buggy friendly", or undefined when
+// nothing is known about the course
+export function describeCourse(event: ParkrunEvent): string | undefined {
+  const parts = [
+    event.surface && COURSE_SURFACE_LABELS[event.surface],
+    event.terrain && COURSE_TERRAIN_LABELS[event.terrain].toLowerCase(),
+    event.laps !== undefined && lapsLabel(event.laps),
+    event.elevationGain !== undefined && `${event.elevationGain} m climb`,
+    event.buggyFriendly !== undefined && buggyLabel(event.buggyFriendly).toLowerCase(),
+  ].filter(Boolean);
+
+  if (parts.length === 0) return undefined;
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
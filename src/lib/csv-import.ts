@@ -0,0 +1,138 @@
+import type { Geometry } from 'geojson';
+import Papa from 'papaparse';
+import { DatasetFormatError, sniffPayload } from '@/lib/csv';
+import { centroid } from '@/lib/geometry';
+import type { CustomPoint, DatasetLoadResult, SourceRow } from '@/lib/types';
+import type { ValidationIssue } from '@/lib/validation';
+import { parseWkt } from '@/lib/wkt';
+
+export type MappedField = 'name' | 'latitude' | 'longitude' | 'description' | 'wkt';
+
+// Column index for each field; coordinates come from either the
+// latitude/longitude pair or the WKT column
+export type ColumnMapping = Partial<Record<MappedField, number>>;
+
+export interface CsvTable {
+  filename: string;
+  rows: string[][];
+}
+
+export function readCsvTable(filename: string, text: string): CsvTable {
+  const kind = sniffPayload(text);
+  if (kind !== 'csv') {
+    throw new DatasetFormatError(filename, kind, `${filename} is not a CSV file (looks like ${kind === 'empty' ? 'an empty file' : kind})`);
+  }
+
+  const parsed = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  return { filename, rows: parsed.data };
+}
+
+const isNumber = (value: string | undefined) => value !== undefined && value.trim() !== '' && Number.isFinite(Number(value));
+
+const HEADER_PATTERNS: Record<MappedField, RegExp> = {
+  wkt: /^(wkt|geom|geometry|the_geom)$/i,
+  latitude: /^(lat|latitude|y)$/i,
+  longitude: /^(lng|lon|long|longitude|x)$/i,
+  name: /^(name|title|event|park)$/i,
+  description: /^(description|desc|location|notes?)$/i,
+};
+
+// A header row has familiar column names, or text where the rows below it
+// have numbers
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  const [first, second] = rows;
+  const patterns = Object.values(HEADER_PATTERNS);
+  return first.some((value) => patterns.some((pattern) => pattern.test(value.trim())))
+    || second.some((value, index) => isNumber(value) && !isNumber(first[index]));
+}
+
+export function guessMapping(rows: string[][], hasHeader: boolean): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const claim = (field: MappedField, index: number) => {
+    if (index >= 0 && mapping[field] === undefined && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  };
+
+  if (hasHeader) {
+    (Object.keys(HEADER_PATTERNS) as MappedField[]).forEach((field) => {
+      claim(field, rows[0].findIndex((header) => HEADER_PATTERNS[field].test(header.trim())));
+    });
+  }
+
+  // Otherwise fall back to the shape of the data, as in uk-parkruns.csv:
+  // text columns first, then a latitude-like and a longitude-like number
+  const sample = rows.slice(hasHeader ? 1 : 0, hasHeader ? 21 : 20);
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const numeric = (index: number, limit: number) =>
+    sample.length > 0 && sample.every((row) => isNumber(row[index]) && Math.abs(Number(row[index])) <= limit);
+
+  for (let index = 0; index < columnCount; index++) {
+    if (mapping.wkt === undefined && sample.some((row) => /^\s*(SRID=\d+;)?(MULTI)?(POINT|LINESTRING|POLYGON)/i.test(row[index] ?? ''))) {
+      claim('wkt', index);
+    }
+  }
+  for (let index = 0; index < columnCount; index++) {
+    if (numeric(index, 90)) claim('latitude', index);
+  }
+  for (let index = 0; index < columnCount; index++) {
+    if (numeric(index, 180)) claim('longitude', index);
+  }
+  for (let index = 0; index < columnCount; index++) {
+    if (!numeric(index, Infinity)) {
+      claim('name', index);
+      claim('description', index);
+    }
+  }
+
+  if (mapping.wkt !== undefined) {
+    delete mapping.latitude;
+    delete mapping.longitude;
+  }
+
+  return mapping;
+}
+
+export function mapCsvRows(rows: string[][], mapping: ColumnMapping, hasHeader: boolean): DatasetLoadResult<CustomPoint> {
+  const result: SourceRow<CustomPoint>[] = [];
+  const issues: ValidationIssue[] = [];
+  const offset = hasHeader ? 1 : 0;
+  const cell = (row: string[], field: MappedField) =>
+    mapping[field] === undefined ? undefined : row[mapping[field]]?.trim();
+
+  rows.slice(offset).forEach((fields, index) => {
+    const row = index + offset + 1;
+    let latitude: number;
+    let longitude: number;
+    let geometry: Geometry | undefined;
+
+    if (mapping.wkt !== undefined) {
+      try {
+        geometry = parseWkt(cell(fields, 'wkt') ?? '');
+      } catch (error) {
+        issues.push({ row, field: 'wkt', reason: (error as Error).message });
+        return;
+      }
+      [longitude, latitude] = centroid(geometry);
+    } else {
+      latitude = parseFloat(cell(fields, 'latitude') ?? '');
+      longitude = parseFloat(cell(fields, 'longitude') ?? '');
+    }
+
+    const description = cell(fields, 'description');
+
+    result.push({
+      row,
+      record: {
+        name: cell(fields, 'name') ?? '',
+        latitude,
+        longitude,
+        ...(description && { description }),
+        ...(geometry && geometry.type !== 'Point' && { geometry }),
+      },
+    });
+  });
+
+  return { rows: result, issues };
+}
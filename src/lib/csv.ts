@@ -0,0 +1,56 @@
+export type PayloadKind = 'csv' | 'html' | 'json' | 'binary' | 'empty';
+
+export class DatasetFormatError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly kind: PayloadKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'DatasetFormatError';
+  }
+}
+
+function hasControlCharacters(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 9 || (code > 13 && code < 32)) return true;
+  }
+  return false;
+}
+
+// Guess what a "CSV" download really contains. Shared links from file hosts
+// often return their HTML preview page with a 200 status instead of the file.
+export function sniffPayload(text: string): PayloadKind {
+  const head = text.replace(/^\uFEFF/, '').trimStart().slice(0, 512);
+
+  if (head.length === 0) return 'empty';
+  if (hasControlCharacters(head)) return 'binary';
+  if (/^<(!doctype|html|head|body|\?xml|!--)/i.test(head)) return 'html';
+  if (/^[[{]/.test(head)) {
+    try {
+      JSON.parse(text);
+      return 'json';
+    } catch {
+      // Not JSON after all, fall through to CSV
+    }
+  }
+  if (/<\/?(html|head|body|script|div|meta)\b/i.test(head)) return 'html';
+
+  return 'csv';
+}
+
+export async function fetchCsv(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url} (${response.status})`);
+  }
+
+  const text = await response.text();
+  const kind = sniffPayload(text);
+  if (kind !== 'csv') {
+    throw new DatasetFormatError(url, kind, `${url} is not a CSV file (looks like ${kind === 'empty' ? 'an empty file' : kind})`);
+  }
+
+  return text;
+}
@@ -0,0 +1,86 @@
+import type { DatasetDefinition } from '@/lib/datasets';
+import type { MapPoint } from '@/lib/types';
+import { validateDataset, type ValidationReport } from '@/lib/validation';
+
+const DB_NAME = 'parkrun-theme-map';
+const STORE = 'datasets';
+
+export interface CachedDataset {
+  id: string;
+  version: number;
+  // SHA-256 of the validated records, used to tell whether a refresh changed anything
+  hash: string;
+  savedAt: number;
+  records: MapPoint[];
+  report: ValidationReport;
+}
+
+export interface LoadedDataset {
+  records: MapPoint[];
+  report: ValidationReport;
+  hash: string;
+  // Whether the records differ from the previous visit's copy
+  changed: boolean;
+  previous: CachedDataset | null;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then((db) => new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).finally(() => db.close()));
+}
+
+// The cache is an optimisation, so private browsing or a blocked
+// IndexedDB just means every visit loads from the network
+export async function readCachedDataset(id: string, version: number): Promise<CachedDataset | null> {
+  try {
+    const entry = await run<CachedDataset | undefined>('readonly', (store) => store.get(id));
+    return entry && entry.version === version ? entry : null;
+  } catch (error) {
+    console.warn(`Could not read cached ${id}`, error);
+    return null;
+  }
+}
+
+async function writeCachedDataset(entry: CachedDataset): Promise<void> {
+  try {
+    await run('readwrite', (store) => store.put(entry));
+  } catch (error) {
+    console.warn(`Could not cache ${entry.id}`, error);
+  }
+}
+
+export async function hashRecords(records: MapPoint[]): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(records));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Loads and validates a dataset from its source, then compares it with and
+// replaces the cached copy. Datasets without a version are never cached.
+export async function loadDataset(dataset: DatasetDefinition): Promise<LoadedDataset> {
+  const { records, report } = validateDataset(dataset.id, dataset.schema, await dataset.load());
+  const hash = await hashRecords(records);
+
+  if (dataset.version === undefined) {
+    return { records, report, hash, changed: true, previous: null };
+  }
+
+  const previous = await readCachedDataset(dataset.id, dataset.version);
+  if (previous?.hash !== hash) {
+    await writeCachedDataset({ id: dataset.id, version: dataset.version, hash, savedAt: Date.now(), records, report });
+  }
+
+  return { records, report, hash, changed: previous?.hash !== hash, previous };
+}
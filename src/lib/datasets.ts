@@ -0,0 +1,459 @@
+import type { GeoJsonProperties } from 'geojson';
+import type L from 'leaflet';
+import type { LucideIcon } from 'lucide-react';
+import { Circle, Footprints, MapPin, TreePine } from 'lucide-react';
+import type { ZodTypeAny } from 'zod';
+import type { ButtonProps } from '@/components/ui/button';
+import type { ColocationRule } from '@/lib/colocation';
+import { numberProperty, textProperty } from '@/lib/geojson';
+import {
+  buggyLabel,
+  COURSE_SURFACE_LABELS,
+  COURSE_TERRAIN_LABELS,
+  describeCourse,
+  elevationBand,
+  lapsLabel,
+  parseYesNo,
+} from '@/lib/courses';
+import { describeStatus, effectiveStatus, EVENT_STATUS_LABELS } from '@/lib/event-status';
+import { formatDistance } from '@/lib/geometry';
+import { createDotIcon, createDotStyle, type DotStyle } from '@/lib/markers';
+import { classifyEventType, loadParkruns } from '@/lib/parkruns';
+import type { NearbyRecord } from '@/lib/proximity';
+import { customPointSchema, parkrunEventSchema, themeParkSchema } from '@/lib/schemas';
+import { recordId, slugify } from '@/lib/slugs';
+import { classifyThemePark, loadThemeParks, parseThemeParkType, THEME_PARK_TYPE_LABELS } from '@/lib/theme-parks';
+import type {
+  CustomPoint,
+  DatasetLoadResult,
+  EventStatus,
+  EventType,
+  MapPoint,
+  ParkrunEvent,
+  ThemePark,
+  ThemeParkType,
+} from '@/lib/types';
+import { escapeHtml } from '@/lib/xml';
+
+// Record fields other than the position, which importers fill from the geometry
+export type RecordProperties<T extends MapPoint> = Omit<T, 'latitude' | 'longitude' | 'geometry'>;
+
+// A dropdown in MapControls that narrows a layer down to records sharing
+// one value, such as the country a theme park is in
+export interface DatasetFilter<T extends MapPoint = MapPoint> {
+  id: string;
+  // Shown as the option that turns the filter off, e.g. 'All countries'
+  allLabel: string;
+  value(record: T): string | undefined;
+  // Value left out until the user picks it or chooses `showAllLabel`,
+  // such as events that have retired
+  hiddenValue?: string;
+  showAllLabel?: string;
+}
+
+// What a popup can mention beyond the record's own fields
+export interface PopupContext {
+  // Parkruns near the record, nearest first
+  nearbyParkruns?: NearbyRecord[];
+}
+
+export interface DatasetDefinition<T extends MapPoint = MapPoint> {
+  id: string;
+  // Shared by every dataset holding the same kind of record, including imports
+  recordType: string;
+  label: string;
+  colour: string;
+  defaultVisible: boolean;
+  // Version of the parsed records kept in IndexedDB. Bump it whenever the
+  // loader's output changes shape; datasets without one aren't cached.
+  version?: number;
+  controlIcon: LucideIcon;
+  // Layers without a variant show their colour on the toggle instead
+  buttonVariant?: ButtonProps['variant'];
+  icon: L.DivIcon;
+  // Marker for a particular record, when it shouldn't use `icon`
+  iconFor?(record: T): L.DivIcon;
+  // Dot drawn on the canvas instead of the icon when there are too many
+  // points for HTML markers. Without one, records get a plain dot.
+  pointStyle?(record: T): L.CircleMarkerOptions;
+  schema: ZodTypeAny;
+  load(): Promise<DatasetLoadResult<T>>;
+  renderPopup(record: T, context?: PopupContext): string;
+  // One line of plain text describing a record, used by KML and GPX exports
+  summary?(record: T): string;
+  // Maps feature properties from imported files onto record fields
+  fromProperties(properties: NonNullable<GeoJsonProperties>, row: number): RecordProperties<T>;
+  // Whether an untagged imported feature looks like this kind of record
+  matchesProperties?(properties: NonNullable<GeoJsonProperties>): boolean;
+  filters?: DatasetFilter<T>[];
+  // Shown in the error toast when the source file has the wrong format
+  formatHint?: string;
+  // Shown when the data is first loaded, and again whenever it changes
+  loadedToast?: {
+    title: string;
+    description(count: number): string;
+  };
+}
+
+// Imported features without an eventType, such as GPX waypoints, go by
+// their name
+function eventTypeProperty(properties: NonNullable<GeoJsonProperties>): EventType {
+  const eventType = textProperty(properties, 'eventType');
+  return eventType === 'junior' || eventType === 'fiveK'
+    ? eventType
+    : classifyEventType(textProperty(properties, 'name', 'Name', 'title') ?? '');
+}
+
+// Exports tag parkruns with their category, even in GPX files that keep
+// nothing else but the name
+const looksLikeParkrun = (properties: NonNullable<GeoJsonProperties>) =>
+  properties.category === 'parkrun'
+  || ['venue', 'region', 'location', 'status', 'eventType'].some((key) => key in properties);
+
+let parkrunLoad: Promise<DatasetLoadResult<ParkrunEvent>> | null = null;
+
+// Both parkrun layers come from uk-parkruns.csv, so concurrent loads share
+// one fetch. Rows that couldn't be read at all are reported by the 5k layer.
+function loadParkrunEvents(eventType: EventType) {
+  return async (): Promise<DatasetLoadResult<ParkrunEvent>> => {
+    parkrunLoad ??= loadParkruns().finally(() => {
+      parkrunLoad = null;
+    });
+    const { rows, issues } = await parkrunLoad;
+
+    return {
+      rows: rows.filter(({ record }) => record.eventType === eventType),
+      issues: eventType === 'fiveK' ? issues : [],
+    };
+  };
+}
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  fiveK: '5k parkrun, Saturdays',
+  junior: '2k junior parkrun, Sundays',
+};
+
+// "Ward Park, Bangor, County Down, Northern Ireland". The event name stands
+// in for the town unless the venue already mentions it, and a town that
+// shares its name with the county is only given once.
+function describeParkrunLocation(parkrun: ParkrunEvent) {
+  const town = parkrun.name.replace(/\s+juniors?$/i, '');
+  const venue = parkrun.venue.split(/,\s*/);
+  if (!parkrun.venue.toLowerCase().includes(town.toLowerCase())) venue.push(...town.split(/,\s*/));
+
+  return [...venue, parkrun.region, parkrun.country]
+    .filter((part, index, parts) => part && part.toLowerCase() !== parts[index - 1]?.toLowerCase())
+    .join(', ');
+}
+
+function renderParkrunPopup(parkrun: ParkrunEvent, headingClass: string) {
+  const retired = parkrun.status === 'retired' ? ' line-through' : '';
+  const course = describeCourse(parkrun);
+
+  return `
+    <div class="p-2">
+      <h3 class="font-semibold ${headingClass}${retired}">${escapeHtml(parkrun.name)}</h3>
+      <p class="text-sm text-gray-600">${escapeHtml(describeParkrunLocation(parkrun))}</p>
+      <p class="text-xs text-gray-500">${EVENT_TYPE_LABELS[parkrun.eventType]}</p>
+      ${course ? `<p class="text-xs text-gray-500">Course: ${escapeHtml(course)}</p>` : ''}
+      <p class="text-xs text-gray-500">Status: ${escapeHtml(describeStatus(parkrun))}</p>
+    </div>
+  `;
+}
+
+// Paused and retired events are greyed out, and cancelled ones hollow, so
+// they stand out from the events that are on
+const INACTIVE_COLOUR = '#9ca3af';
+
+// One marker per status, as an HTML icon or a canvas dot style
+function parkrunMarkers<M>(
+  create: (colour: string, label?: string, style?: DotStyle) => M,
+  colour: string,
+  label?: string,
+): Record<EventStatus, M> {
+  return {
+    active: create(colour, label),
+    cancelled: create(colour, label, { hollow: true }),
+    paused: create(INACTIVE_COLOUR, label),
+    retired: create(INACTIVE_COLOUR, label, { faded: true }),
+  };
+}
+
+const parkrunStatusFilter: DatasetFilter<ParkrunEvent> = {
+  id: 'status',
+  allLabel: 'All but retired',
+  showAllLabel: 'All, including retired',
+  hiddenValue: EVENT_STATUS_LABELS.retired,
+  value: (parkrun) => EVENT_STATUS_LABELS[effectiveStatus(parkrun)],
+};
+
+const fiveKIcons = parkrunMarkers(createDotIcon, '#16a34a');
+const fiveKPoints = parkrunMarkers(createDotStyle, '#16a34a');
+const juniorIcons = parkrunMarkers(createDotIcon, '#ca8a04', 'J');
+const juniorPoints = parkrunMarkers(createDotStyle, '#ca8a04', 'J');
+
+export const parkrunDataset: DatasetDefinition<ParkrunEvent> = {
+  id: 'parkruns',
+  recordType: 'parkrun',
+  label: '5k Parkruns',
+  colour: '#16a34a',
+  defaultVisible: true,
+  version: 7,
+  controlIcon: TreePine,
+  buttonVariant: 'nature',
+  icon: fiveKIcons.active,
+  iconFor: (parkrun) => fiveKIcons[effectiveStatus(parkrun)],
+  pointStyle: (parkrun) => fiveKPoints[effectiveStatus(parkrun)],
+  schema: parkrunEventSchema,
+  load: loadParkrunEvents('fiveK'),
+  renderPopup: (parkrun) => renderParkrunPopup(parkrun, 'text-green-700'),
+  summary: describeParkrunLocation,
+  fromProperties: (properties) => {
+    const name = textProperty(properties, 'name', 'Name', 'title') ?? '';
+
+    return {
+      id: textProperty(properties, 'id') ?? slugify(name),
+      eventType: eventTypeProperty(properties),
+      name,
+      venue: textProperty(properties, 'venue', 'location') ?? '',
+      country: textProperty(properties, 'country') ?? 'UK',
+      region: textProperty(properties, 'region') ?? '',
+      // Unknown statuses are left for the schema to report
+      status: (textProperty(properties, 'status')?.toLowerCase() ?? 'active') as EventStatus,
+      statusFrom: textProperty(properties, 'statusFrom'),
+      statusUntil: textProperty(properties, 'statusUntil'),
+      statusNote: textProperty(properties, 'statusNote'),
+      surface: textProperty(properties, 'surface')?.toLowerCase() as ParkrunEvent['surface'],
+      terrain: textProperty(properties, 'terrain')?.toLowerCase() as ParkrunEvent['terrain'],
+      laps: numberProperty(properties, 'laps'),
+      elevationGain: numberProperty(properties, 'elevationGain', 'elevation'),
+      buggyFriendly: parseYesNo(textProperty(properties, 'buggyFriendly')),
+    };
+  },
+  matchesProperties: (properties) => looksLikeParkrun(properties) && eventTypeProperty(properties) === 'fiveK',
+  filters: [
+    { id: 'country', allLabel: 'All nations', value: (parkrun) => parkrun.country },
+    { id: 'region', allLabel: 'All counties', value: (parkrun) => parkrun.region },
+    parkrunStatusFilter,
+    { id: 'surface', allLabel: 'All surfaces', value: (parkrun) => parkrun.surface && COURSE_SURFACE_LABELS[parkrun.surface] },
+    { id: 'terrain', allLabel: 'Any terrain', value: (parkrun) => parkrun.terrain && COURSE_TERRAIN_LABELS[parkrun.terrain] },
+    { id: 'laps', allLabel: 'Any number of laps', value: (parkrun) => parkrun.laps ? lapsLabel(parkrun.laps) : undefined },
+    {
+      id: 'elevation',
+      allLabel: 'Any amount of climb',
+      value: (parkrun) => parkrun.elevationGain === undefined ? undefined : elevationBand(parkrun.elevationGain),
+    },
+    {
+      id: 'buggyFriendly',
+      allLabel: 'With or without buggies',
+      value: (parkrun) => parkrun.buggyFriendly === undefined ? undefined : buggyLabel(parkrun.buggyFriendly),
+    },
+  ],
+  loadedToast: {
+    title: 'UK Parkrun data loaded',
+    description: (count) => `Successfully loaded ${count} UK 5k parkrun events`,
+  },
+};
+
+export const juniorParkrunDataset: DatasetDefinition<ParkrunEvent> = {
+  ...parkrunDataset,
+  id: 'juniorParkruns',
+  label: 'Junior Parkruns',
+  colour: '#ca8a04',
+  version: 6,
+  controlIcon: Footprints,
+  buttonVariant: undefined,
+  icon: juniorIcons.active,
+  iconFor: (parkrun) => juniorIcons[effectiveStatus(parkrun)],
+  pointStyle: (parkrun) => juniorPoints[effectiveStatus(parkrun)],
+  load: loadParkrunEvents('junior'),
+  renderPopup: (parkrun) => renderParkrunPopup(parkrun, 'text-yellow-700'),
+  matchesProperties: (properties) => looksLikeParkrun(properties) && eventTypeProperty(properties) === 'junior',
+  loadedToast: undefined,
+};
+
+// Junior events are usually a short walk from their 5k counterpart
+const PARKRUN_COLOCATION_KM = 0.5;
+
+// "Locke Park, Barnsley" and "Locke Park" are the same venue, as are
+// "Barnsley" and "Barnsley juniors"
+const venueKey = (venue: string) => venue.split(',')[0].trim().toLowerCase();
+const eventKey = (name: string) => name.replace(/\s+juniors?$/i, '').trim().toLowerCase();
+
+export const parkrunColocation: ColocationRule<ParkrunEvent> = {
+  datasetIds: [parkrunDataset.id, juniorParkrunDataset.id],
+  distanceKm: PARKRUN_COLOCATION_KM,
+  sameVenue: (a, b) => venueKey(a.venue) === venueKey(b.venue) || eventKey(a.name) === eventKey(b.name),
+};
+
+// Parks other than theme parks carry the first letter of their type
+function themeParkMarkers<M>(create: (colour: string, label?: string) => M): Record<ThemeParkType, M> {
+  return {
+    themePark: create('#0369a1'),
+    waterPark: create('#0369a1', 'W'),
+    indoor: create('#0369a1', 'I'),
+    marinePark: create('#0369a1', 'M'),
+  };
+}
+
+const themeParkIcons = themeParkMarkers(createDotIcon);
+const themeParkPoints = themeParkMarkers(createDotStyle);
+
+// Theme park popups list this many of the parkruns near the park
+const NEAREST_PARKRUN_LIMIT = 3;
+
+// Each name links to its event; InteractiveMap picks up the data attributes
+// and flies there
+function renderNearbyParkruns(nearby: NearbyRecord[]) {
+  if (nearby.length === 0) return '<p class="text-xs text-gray-500 mt-1">No parkruns nearby</p>';
+
+  const links = nearby.slice(0, NEAREST_PARKRUN_LIMIT).map(({ dataset, record, distanceKm }) => `
+    <a
+      href="#"
+      class="text-blue-600 underline"
+      data-focus-dataset="${escapeHtml(dataset.id)}"
+      data-focus-record="${escapeHtml(recordId(record))}"
+      data-focus-latitude="${record.latitude}"
+      data-focus-longitude="${record.longitude}"
+    >${escapeHtml(record.name)}</a> ${formatDistance(distanceKm)}`);
+
+  return `<p class="text-xs text-gray-500 mt-1">Nearest parkruns: ${links.join(', ')}${nearby.length > NEAREST_PARKRUN_LIMIT ? ', …' : ''}</p>`;
+}
+
+const rollercoastersLabel = (count: number) =>
+  count === 0 ? 'No rollercoasters' : `${count} ${count === 1 ? 'rollercoaster' : 'rollercoasters'}`;
+
+function renderThemeParkPopup(park: ThemePark, { nearbyParkruns }: PopupContext = {}) {
+  const facts = [
+    THEME_PARK_TYPE_LABELS[park.parkType],
+    park.rollercoasters !== undefined && rollercoastersLabel(park.rollercoasters),
+    park.season && `Open ${park.season}`,
+  ].filter(Boolean);
+
+  return `
+    <div class="p-2">
+      <h3 class="font-semibold text-blue-700">${escapeHtml(park.name)}</h3>
+      <p class="text-sm text-gray-600">${escapeHtml(park.state ? `${park.state}, ${park.country}` : park.country)}</p>
+      <p class="text-xs text-gray-500">${escapeHtml(facts.join(' · '))}</p>
+      ${park.description ? `<p class="text-sm text-gray-600 mt-1">${escapeHtml(park.description)}</p>` : ''}
+      ${nearbyParkruns ? renderNearbyParkruns(nearbyParkruns) : ''}
+      ${park.website ? `<a href="${escapeHtml(park.website)}" target="_blank" rel="noopener noreferrer" class="text-xs text-blue-600 underline">Park website</a>` : ''}
+    </div>
+  `;
+}
+
+export const themeParkDataset: DatasetDefinition<ThemePark> = {
+  id: 'themeParks',
+  recordType: 'themePark',
+  label: 'Theme Parks',
+  colour: '#0369a1',
+  defaultVisible: true,
+  version: 7,
+  controlIcon: MapPin,
+  buttonVariant: 'adventure',
+  icon: themeParkIcons.themePark,
+  iconFor: (park) => themeParkIcons[park.parkType],
+  pointStyle: (park) => themeParkPoints[park.parkType],
+  schema: themeParkSchema,
+  load: loadThemeParks,
+  renderPopup: renderThemeParkPopup,
+  summary: (park) => `${park.state ? `${park.state}, ` : ''}${park.country}`,
+  fromProperties: (properties) => {
+    const name = textProperty(properties, 'name', 'Name', 'title') ?? '';
+    const parkType = textProperty(properties, 'parkType', 'type');
+
+    return {
+      id: textProperty(properties, 'id') ?? slugify(name),
+      name,
+      parkType: parkType ? parseThemeParkType(parkType) : classifyThemePark(name),
+      country: textProperty(properties, 'country') ?? 'International',
+      state: textProperty(properties, 'state'),
+      website: textProperty(properties, 'website', 'url'),
+      season: textProperty(properties, 'season'),
+      rollercoasters: numberProperty(properties, 'rollercoasters'),
+      description: textProperty(properties, 'description', 'desc'),
+    };
+  },
+  filters: [
+    { id: 'country', allLabel: 'All countries', value: (park) => park.country },
+    { id: 'parkType', allLabel: 'All kinds of park', value: (park) => THEME_PARK_TYPE_LABELS[park.parkType] },
+  ],
+  formatHint: 'Replace it with a CSV export that has WKT, name and description columns.',
+};
+
+// Every point category shown on the map. Add an entry here to get a layer,
+// a toggle in MapControls and a count without touching the components.
+export const datasets: DatasetDefinition[] = [
+  parkrunDataset,
+  juniorParkrunDataset,
+  themeParkDataset,
+];
+
+// Layers whose records can share a combined marker
+export const colocationRules: ColocationRule[] = [parkrunColocation];
+
+export function defaultVisibility(definitions: DatasetDefinition[]): Record<string, boolean> {
+  return Object.fromEntries(definitions.map((dataset) => [dataset.id, dataset.defaultVisible]));
+}
+
+let importCount = 0;
+
+// A new layer holding records read from a user's file, drawn and validated
+// like the dataset it was matched to
+export function createImportedDataset<T extends MapPoint>(
+  base: DatasetDefinition<T>,
+  label: string,
+  result: DatasetLoadResult<T>,
+): DatasetDefinition<T> {
+  importCount += 1;
+
+  return {
+    ...base,
+    id: `${base.id}-import-${importCount}`,
+    label,
+    defaultVisible: true,
+    version: undefined,
+    load: async () => result,
+    formatHint: undefined,
+    loadedToast: {
+      title: `Imported ${label}`,
+      description: (count) => `Added ${count} ${base.label.toLowerCase()} to the map`,
+    },
+  };
+}
+
+// A layer for points from a CSV the user mapped column by column
+export function createCustomDataset(
+  label: string,
+  colour: string,
+  result: DatasetLoadResult<CustomPoint>,
+): DatasetDefinition<CustomPoint> {
+  importCount += 1;
+
+  return {
+    id: `custom-import-${importCount}`,
+    recordType: 'point',
+    label,
+    colour,
+    defaultVisible: true,
+    controlIcon: Circle,
+    icon: createDotIcon(colour),
+    schema: customPointSchema,
+    load: async () => result,
+    renderPopup: (point) => `
+      <div class="p-2">
+        <h3 class="font-semibold" style="color: ${escapeHtml(colour)}">${escapeHtml(point.name)}</h3>
+        ${point.description ? `<p class="text-sm text-gray-600">${escapeHtml(point.description)}</p>` : ''}
+      </div>
+    `,
+    summary: (point) => point.description ?? '',
+    fromProperties: (properties) => ({
+      name: textProperty(properties, 'name', 'Name', 'title') ?? '',
+      description: textProperty(properties, 'description', 'desc'),
+    }),
+    loadedToast: {
+      title: `Imported ${label}`,
+      description: (count) => `Added ${count} points to the map`,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import Papa from 'papaparse';
+import type { DatasetLoadResult, ParkrunEvent } from '@/lib/types';
+import type { ValidationIssue } from '@/lib/validation';
+
+// Extra fields for some parkrun events, from a CSV with an `id` column
+// matching the event ids, such as parkrun-status.csv
+export interface EventDetailsList<T extends Partial<ParkrunEvent>> {
+  // File the details came from, named in every issue
+  source: string;
+  details: Map<string, T & { row: number }>;
+  issues: ValidationIssue[];
+}
+
+// Turns one row into the fields it sets, or a reason it can't be used
+export type EventDetailsRow<T> = (item: Record<string, string>, id: string) => T | string;
+
+export function parseEventDetailsCsv<T extends Partial<ParkrunEvent>>(
+  text: string,
+  source: string,
+  parseRow: EventDetailsRow<T>,
+): EventDetailsList<T> {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase(),
+  });
+
+  const details: EventDetailsList<T>['details'] = new Map();
+  // Rows refer to the details file rather than the event list, so every
+  // issue names it
+  const issues: ValidationIssue[] = [];
+  const report = (row: number, field: string, reason: string) => issues.push({ row, field, reason, source });
+
+  parsed.errors.forEach((error) => report((error.row ?? 0) + 2, 'record', error.message));
+
+  parsed.data.forEach((item, index) => {
+    const row = index + 2;
+    const id = item.id?.trim() ?? '';
+
+    if (details.has(id)) {
+      report(row, 'id', `${id} is already listed on row ${details.get(id).row}`);
+      return;
+    }
+
+    const fields = parseRow(item, id);
+    if (typeof fields === 'string') {
+      report(row, 'record', fields);
+      return;
+    }
+    details.set(id, { ...fields, row });
+  });
+
+  return { source, details, issues };
+}
+
+// Copies the details onto the events with the same id. Ids that match no
+// event are reported, since they're usually a renamed event.
+export function applyEventDetails<T extends Partial<ParkrunEvent>>(
+  { rows, issues }: DatasetLoadResult<ParkrunEvent>,
+  { source, details, issues: detailIssues }: EventDetailsList<T>,
+): DatasetLoadResult<ParkrunEvent> {
+  const ids = new Set(rows.map(({ record }) => record.id));
+  const unknown = [...details.entries()]
+    .filter(([id]) => !ids.has(id))
+    .map(([id, { row }]) => ({ row, field: 'id', reason: `No event with id "${id}"`, source }));
+
+  return {
+    rows: rows.map(({ row, record }) => {
+      const entry = details.get(record.id);
+      if (!entry) return { row, record };
+
+      const { row: _detailsRow, ...fields } = entry;
+      return { row, record: { ...record, ...fields } };
+    }),
+    issues: [...issues, ...detailIssues, ...unknown],
+  };
+}
@@ -0,0 +1,77 @@
+import { fetchCsv } from '@/lib/csv';
+import { parseEventDetailsCsv, type EventDetailsList } from '@/lib/event-details';
+import type { EventStatus, ParkrunEvent } from '@/lib/types';
+
+export const EVENT_STATUS_CSV_URL = '/parkrun-status.csv';
+
+export const EVENT_STATUSES: EventStatus[] = ['active', 'cancelled', 'paused', 'retired'];
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  active: 'Active',
+  cancelled: 'Temporarily cancelled',
+  paused: 'Paused',
+  retired: 'Retired',
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+type StatusFields = Pick<ParkrunEvent, 'status' | 'statusFrom' | 'statusUntil' | 'statusNote'>;
+
+export type EventStatusList = EventDetailsList<StatusFields>;
+
+// parkrun-status.csv lists every event that isn't simply active, by id:
+// id, status, from, until, note. Cancellations need both dates; the others
+// can give `from` as the day they started.
+export function parseEventStatusCsv(text: string, source = EVENT_STATUS_CSV_URL): EventStatusList {
+  return parseEventDetailsCsv<StatusFields>(text, source, (item, id) => {
+    const status = item.status?.trim().toLowerCase() as EventStatus;
+    const from = item.from?.trim() || undefined;
+    const until = item.until?.trim() || undefined;
+
+    if (!EVENT_STATUSES.includes(status)) return `Unknown status "${item.status ?? ''}" for ${id}`;
+    const badDate = [from, until].find((date) => date && !DATE.test(date));
+    if (badDate) return `Date "${badDate}" for ${id} isn't YYYY-MM-DD`;
+    if (status === 'cancelled' && (!from || !until)) return `Cancellation of ${id} needs both a from and an until date`;
+
+    return {
+      status,
+      ...(from && { statusFrom: from }),
+      ...(until && { statusUntil: until }),
+      ...(item.note?.trim() && { statusNote: item.note.trim() }),
+    };
+  });
+}
+
+export async function loadEventStatuses(url = EVENT_STATUS_CSV_URL): Promise<EventStatusList> {
+  return parseEventStatusCsv(await fetchCsv(url), url);
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// What an event's status means on a given day: a cancellation only counts
+// between its dates, and the event is active either side of them
+export function effectiveStatus(event: ParkrunEvent, date = today()): EventStatus {
+  if (event.status !== 'cancelled') return event.status;
+  return event.statusFrom <= date && date <= event.statusUntil ? 'cancelled' : 'active';
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// "Temporarily cancelled, 1 Mar 2026 to 15 Mar 2026 (path resurfacing)"
+export function describeStatus(event: ParkrunEvent, date = today()): string {
+  const status = effectiveStatus(event, date);
+  let text = EVENT_STATUS_LABELS[status];
+
+  if (event.status === 'cancelled') {
+    const range = `${formatDate(event.statusFrom)} to ${formatDate(event.statusUntil)}`;
+    if (status === 'cancelled') text += `, ${range}`;
+    // Past cancellations aren't worth mentioning, upcoming ones are
+    else if (date < event.statusFrom) text += `; cancelled ${range}`;
+    else return text;
+  } else if (event.statusFrom) {
+    text += ` since ${formatDate(event.statusFrom)}`;
+  }
+
+  return event.statusNote ? `${text} (${event.statusNote})` : text;
+}
@@ -0,0 +1,36 @@
+import type { DatasetRecords } from '@/lib/geojson';
+import { toFeatureCollection } from '@/lib/geojson';
+import { toGpx } from '@/lib/gpx';
+import { toKml } from '@/lib/kml';
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize(layers: DatasetRecords[]): string;
+}
+
+export const exportFormats: ExportFormat[] = [
+  {
+    id: 'geojson',
+    label: 'GeoJSON',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+    serialize: (layers) => JSON.stringify(toFeatureCollection(layers), null, 2),
+  },
+  {
+    id: 'kml',
+    label: 'KML (Google My Maps)',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+    serialize: toKml,
+  },
+  {
+    id: 'gpx',
+    label: 'GPX waypoints',
+    extension: 'gpx',
+    mimeType: 'application/gpx+xml',
+    serialize: toGpx,
+  },
+];
@@ -0,0 +1,54 @@
+import type { DatasetDefinition, DatasetFilter } from '@/lib/datasets';
+import type { MapPoint } from '@/lib/types';
+
+// Chosen value of each filter, by dataset id and then filter id. Filters
+// without a value let every record through, apart from their hidden value.
+export type FilterSelection = Record<string, Record<string, string>>;
+
+// Selected to let every record through, including a filter's hidden value
+export const SHOW_ALL = '*';
+
+// Every value a filter can take in a layer, in alphabetical order with
+// numbers in numeric order, so '2 laps' comes before '10 laps'
+export function filterOptions<T extends MapPoint>(filter: DatasetFilter<T>, records: T[]): string[] {
+  const values = new Set(records.map((record) => filter.value(record)).filter((value): value is string => !!value));
+  return [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function passes<T extends MapPoint>(filter: DatasetFilter<T>, record: T, selected: string | undefined): boolean {
+  if (selected === SHOW_ALL) return true;
+  if (selected === undefined) return !filter.hiddenValue || filter.value(record) !== filter.hiddenValue;
+  return filter.value(record) === selected;
+}
+
+// Whether any record is left out, by a chosen value or by a filter hiding
+// one of its values until asked
+export function isFiltered<T extends MapPoint>(
+  dataset: DatasetDefinition<T>,
+  records: T[],
+  selection: FilterSelection,
+): boolean {
+  return (dataset.filters ?? []).some((filter) => {
+    const selected = selection[dataset.id]?.[filter.id];
+    if (selected === undefined) return !!filter.hiddenValue && records.some((record) => !passes(filter, record, selected));
+    return selected !== SHOW_ALL;
+  });
+}
+
+// Records matching every chosen filter value. Leaving one filter out gives
+// the records its own dropdown should offer options from.
+export function applyFilters<T extends MapPoint>(
+  dataset: DatasetDefinition<T>,
+  records: T[],
+  selection: FilterSelection,
+  except?: string,
+): T[] {
+  const active = (dataset.filters ?? []).filter(
+    (filter) => filter.id !== except && (selection[dataset.id]?.[filter.id] !== undefined || filter.hiddenValue),
+  );
+  if (active.length === 0) return records;
+
+  return records.filter((record) =>
+    active.every((filter) => passes(filter, record, selection[dataset.id]?.[filter.id])),
+  );
+}
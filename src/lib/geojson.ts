@@ -0,0 +1,125 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry } from 'geojson';
+import type { DatasetDefinition } from '@/lib/datasets';
+import { centroid } from '@/lib/geometry';
+import type { DatasetLoadResult, MapPoint } from '@/lib/types';
+
+export class GeoJsonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoJsonError';
+  }
+}
+
+export interface DatasetRecords {
+  dataset: DatasetDefinition;
+  records: MapPoint[];
+}
+
+// First non-empty property among `keys`, as text
+export function textProperty(properties: GeoJsonProperties, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = properties?.[key];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+}
+
+// First non-empty property among `keys`, as a number. Text that isn't a
+// number comes back as NaN so the schema reports it.
+export function numberProperty(properties: GeoJsonProperties, ...keys: string[]): number | undefined {
+  const text = textProperty(properties, ...keys);
+  return text === undefined ? undefined : Number(text);
+}
+
+export function toFeature(dataset: DatasetDefinition, record: MapPoint): Feature {
+  const { latitude, longitude, geometry, ...properties } = record;
+
+  return {
+    type: 'Feature',
+    geometry: geometry ?? { type: 'Point', coordinates: [longitude, latitude] },
+    properties: { ...properties, category: dataset.recordType },
+  };
+}
+
+export function toFeatureCollection(layers: DatasetRecords[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: layers.flatMap(({ dataset, records }) => records.map((record) => toFeature(dataset, record))),
+  };
+}
+
+// Features of a GeoJSON FeatureCollection or single Feature
+export function parseGeoJson(text: string): Feature[] {
+  let json: { type?: string; features?: Feature[] };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GeoJsonError('File is not valid JSON');
+  }
+
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) return json.features;
+  if (json?.type === 'Feature') return [json as Feature];
+  throw new GeoJsonError('Expected a GeoJSON FeatureCollection or Feature');
+}
+
+// Picks the dataset a feature belongs to: an explicit `category` property
+// wins, then the first dataset that recognises the properties, then `fallback`.
+// Datasets sharing a category, like the two parkrun layers, are told apart by
+// which of them recognises the properties.
+export function matchDataset(
+  properties: GeoJsonProperties,
+  candidates: DatasetDefinition[],
+  fallback: DatasetDefinition,
+): DatasetDefinition {
+  const category = textProperty(properties, 'category');
+  const recognises = (dataset: DatasetDefinition) => dataset.matchesProperties?.(properties ?? {});
+  const tagged = candidates.filter((dataset) => dataset.recordType === category);
+
+  return tagged.find(recognises) ?? tagged[0] ?? candidates.find(recognises) ?? fallback;
+}
+
+// Turns a feature into a record of `dataset`'s type, using the feature's
+// centroid as the marker position for lines and polygons
+export function featureToRecord(dataset: DatasetDefinition, properties: GeoJsonProperties, geometry: Geometry, row: number): MapPoint {
+  const [longitude, latitude] = centroid(geometry);
+
+  return {
+    ...dataset.fromProperties(properties ?? {}, row),
+    latitude,
+    longitude,
+    ...(geometry.type !== 'Point' && { geometry }),
+  };
+}
+
+// Groups features by the dataset whose record type they map onto. Rows are
+// numbered by feature position, starting at 1.
+export function groupFeatures(
+  features: Feature[],
+  candidates: DatasetDefinition[],
+  fallback: DatasetDefinition,
+): Map<DatasetDefinition, DatasetLoadResult<MapPoint>> {
+  const results = new Map<DatasetDefinition, DatasetLoadResult<MapPoint>>();
+  const resultFor = (dataset: DatasetDefinition) => {
+    if (!results.has(dataset)) results.set(dataset, { rows: [], issues: [] });
+    return results.get(dataset);
+  };
+
+  features.forEach((feature, index) => {
+    const row = index + 1;
+    const dataset = matchDataset(feature?.properties, candidates, fallback);
+
+    if (!feature?.geometry) {
+      resultFor(dataset).issues.push({ row, field: 'geometry', reason: 'Feature has no geometry' });
+      return;
+    }
+
+    resultFor(dataset).rows.push({
+      row,
+      record: featureToRecord(dataset, feature.properties, feature.geometry, row),
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,112 @@
+import type { Geometry, Position } from 'geojson';
+
+// Signed planar area and centroid of a ring in degrees. Parks are small
+// enough that ignoring the earth's curvature makes no visible difference.
+function ringCentroid(ring: Position[]): { area: number; x: number; y: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j];
+    const [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    x += (x0 + x1) * cross;
+    y += (y0 + y1) * cross;
+  }
+  area /= 2;
+  return area === 0 ? { area: 0, x: 0, y: 0 } : { area, x: x / (6 * area), y: y / (6 * area) };
+}
+
+function average(positions: Position[]): Position {
+  const sum = positions.reduce(([x, y], [px, py]) => [x + px, y + py], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+function polygonsCentroid(polygons: Position[][][]): Position {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  polygons.forEach((rings) => {
+    // Holes wind the other way, so their signed areas subtract themselves
+    rings.forEach((ring, index) => {
+      const centroid = ringCentroid(ring);
+      const signed = index === 0 ? Math.abs(centroid.area) : -Math.abs(centroid.area);
+      area += signed;
+      x += centroid.x * signed;
+      y += centroid.y * signed;
+    });
+  });
+  if (area === 0) return average(polygons.flatMap((rings) => rings[0]));
+  return [x / area, y / area];
+}
+
+// Representative [longitude, latitude] used for the marker of a geometry
+export function centroid(geometry: Geometry): Position {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates;
+    case 'MultiPoint':
+    case 'LineString':
+      return average(geometry.coordinates);
+    case 'MultiLineString':
+      return average(geometry.coordinates.flat());
+    case 'Polygon':
+      return polygonsCentroid([geometry.coordinates]);
+    case 'MultiPolygon':
+      return polygonsCentroid(geometry.coordinates);
+    case 'GeometryCollection':
+      return average(geometry.geometries.map(centroid));
+  }
+}
+
+// Even-odd ray cast, so points inside a hole count as outside the polygon
+export function pointInPolygon([x, y]: Position, rings: Position[][]): boolean {
+  let inside = false;
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x0, y0] = ring[j];
+      const [x1, y1] = ring[i];
+      if (y1 > y !== y0 > y && x < ((x0 - x1) * (y - y1)) / (y0 - y1) + x1) inside = !inside;
+    }
+  });
+  return inside;
+}
+
+export const KM_PER_DEGREE = 111.32;
+
+// Approximate distance in kilometres from a point to the nearest edge of a
+// polygon. Longitudes are scaled at the point's latitude, which is plenty
+// for the short distances it's used for.
+export function distanceToPolygon([x, y]: Position, rings: Position[][]): number {
+  const scale = Math.cos((y * Math.PI) / 180);
+  let nearest = Infinity;
+  rings.forEach((ring) => {
+    for (let i = 1; i < ring.length; i++) {
+      const [x0, y0] = ring[i - 1];
+      const [x1, y1] = ring[i];
+      const dx = (x1 - x0) * scale;
+      const dy = y1 - y0;
+      const length = dx * dx + dy * dy;
+      const px = (x - x0) * scale;
+      const py = y - y0;
+      const t = length === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / length));
+      nearest = Math.min(nearest, Math.hypot(px - t * dx, py - t * dy));
+    }
+  });
+  return nearest * KM_PER_DEGREE;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance in kilometres between two [longitude, latitude] positions
+export function haversineDistance([lng0, lat0]: Position, [lng1, lat1]: Position): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat1 - lat0);
+  const dLng = toRadians(lng1 - lng0);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat0)) * Math.cos(toRadians(lat1)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// "12.3 km"
+export const formatDistance = (distanceKm: number) => `${distanceKm.toFixed(1)} km`;
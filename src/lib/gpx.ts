@@ -0,0 +1,74 @@
+import type { Feature, Position } from 'geojson';
+import type { DatasetRecords } from '@/lib/geojson';
+import { childText, children, escapeXml, parseXml } from '@/lib/xml';
+
+function positionOf(point: Element): Position {
+  return [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))];
+}
+
+function propertiesOf(element: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const name = childText(element, 'name');
+  const description = childText(element, 'desc') ?? childText(element, 'cmt');
+  const type = childText(element, 'type');
+
+  if (name) properties.name = name;
+  if (description) properties.description = description;
+  // Exports write the record type into <type>, so it doubles as the category
+  if (type) properties.category = type;
+
+  return properties;
+}
+
+// Waypoints become points; routes and tracks become lines
+export function parseGpx(text: string): Feature[] {
+  const root = parseXml(text, 'gpx');
+
+  const waypoints: Feature[] = children(root, 'wpt').map((waypoint) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: positionOf(waypoint) },
+    properties: propertiesOf(waypoint),
+  }));
+
+  const routes: Feature[] = children(root, 'rte').map((route) => ({
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: children(route, 'rtept').map(positionOf) },
+    properties: propertiesOf(route),
+  }));
+
+  const tracks: Feature[] = children(root, 'trk').map((track) => {
+    const segments = children(track, 'trkseg').map((segment) => children(segment, 'trkpt').map(positionOf));
+
+    return {
+      type: 'Feature',
+      geometry: segments.length === 1
+        ? { type: 'LineString', coordinates: segments[0] }
+        : { type: 'MultiLineString', coordinates: segments },
+      properties: propertiesOf(track),
+    };
+  });
+
+  return [...waypoints, ...routes, ...tracks];
+}
+
+// One waypoint per marker; outlines are reduced to their marker position
+export function toGpx(layers: DatasetRecords[]): string {
+  const waypoints = layers.flatMap(({ dataset, records }) => records.map((record) => {
+    const description = dataset.summary?.(record);
+
+    return [
+      `<wpt lat="${record.latitude}" lon="${record.longitude}">`,
+      `<name>${escapeXml(record.name)}</name>`,
+      description ? `<desc>${escapeXml(description)}</desc>` : '',
+      `<type>${escapeXml(dataset.recordType)}</type>`,
+      '</wpt>',
+    ].join('');
+  }));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Parkrun &amp; Theme Park Map" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    '</gpx>',
+  ].join('\n');
+}
@@ -0,0 +1,40 @@
+import L from 'leaflet';
+import 'leaflet.heat';
+import type { MapPoint } from '@/lib/types';
+
+export interface HeatmapSettings {
+  // Pixels each record spreads over
+  radius: number;
+  // How much each record adds, where 1 is as dense as the map shows
+  intensity: number;
+}
+
+// Heatmaps drawn, by dataset id; a dataset without settings has none
+export type HeatmapSelection = Record<string, HeatmapSettings>;
+
+export const DEFAULT_HEATMAP: HeatmapSettings = { radius: 25, intensity: 0.3 };
+export const HEATMAP_RADIUS_RANGE = { min: 10, max: 60, step: 5 };
+export const HEATMAP_INTENSITY_RANGE = { min: 0.05, max: 1, step: 0.05 };
+
+export function heatmapOptions(colour: string, { radius, intensity }: HeatmapSettings): L.HeatMapOptions {
+  return {
+    radius,
+    blur: Math.round(radius * 0.6),
+    // leaflet.heat weakens points below its max zoom; zero keeps a record
+    // worth the same at every zoom, so the slider means the same everywhere
+    maxZoom: 0,
+    max: 1 / intensity,
+    // One colour per dataset, so heatmaps laid over each other stay apart.
+    // Density shows as opacity.
+    gradient: { 0: colour, 1: colour },
+  };
+}
+
+export function createHeatmap(colour: string, records: MapPoint[], settings: HeatmapSettings): L.HeatLayer {
+  return L.heatLayer(
+    records
+      .filter(({ latitude, longitude }) => Number.isFinite(latitude) && Number.isFinite(longitude))
+      .map(({ latitude, longitude }) => [latitude, longitude, 1]),
+    heatmapOptions(colour, settings),
+  );
+}
@@ -0,0 +1,52 @@
+import type { Feature } from 'geojson';
+import { createCustomDataset, createImportedDataset, datasets, type DatasetDefinition } from '@/lib/datasets';
+import { groupFeatures, parseGeoJson } from '@/lib/geojson';
+import { parseGpx } from '@/lib/gpx';
+import { parseKml } from '@/lib/kml';
+import type { CustomPoint, DatasetLoadResult } from '@/lib/types';
+
+export const IMPORT_ACCEPT = '.csv,.geojson,.json,.kml,.gpx';
+
+// CSVs have no fixed columns, so they go through the column-mapping dialog
+// instead of importFile
+export function isCsvFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+}
+
+const readers: Record<string, (text: string) => Feature[]> = {
+  geojson: parseGeoJson,
+  json: parseGeoJson,
+  kml: parseKml,
+  gpx: parseGpx,
+};
+
+// Colour of the layer holding features that match no dataset
+const OTHER_FEATURES_COLOUR = '#7c3aed';
+
+function baseName(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '');
+}
+
+// Reads a user's file into new layers, one per kind of record it contains.
+// Features that match no dataset, such as GPX routes and untagged KML
+// placemarks, go into a layer of plain points and routes.
+export async function importFile(file: File): Promise<DatasetDefinition[]> {
+  const text = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  const reader = readers[extension];
+  if (!reader) {
+    throw new Error(`Unsupported file type ".${extension}"`);
+  }
+
+  const other = createCustomDataset('Other places', OTHER_FEATURES_COLOUR, { rows: [], issues: [] });
+  const results = groupFeatures(reader(text), datasets, other);
+  const name = baseName(file.name);
+
+  return [...results].map(([base, result]) => {
+    const label = results.size > 1 ? `${name} (${base.label})` : name;
+    return base === other
+      ? createCustomDataset(label, OTHER_FEATURES_COLOUR, result as DatasetLoadResult<CustomPoint>)
+      : createImportedDataset(base, label, result);
+  });
+}
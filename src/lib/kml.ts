@@ -0,0 +1,157 @@
+import type { Feature, Geometry, Position } from 'geojson';
+import type { DatasetRecords } from '@/lib/geojson';
+import { toFeature } from '@/lib/geojson';
+import { childText, children, descendants, escapeXml, parseXml } from '@/lib/xml';
+
+function parseCoordinates(text: string | null | undefined): Position[] {
+  return (text ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [longitude, latitude] = tuple.split(',').map(Number);
+      return [longitude, latitude];
+    });
+}
+
+function coordinatesOf(element: Element): Position[] {
+  return parseCoordinates(children(element, 'coordinates')[0]?.textContent);
+}
+
+function ringsOf(polygon: Element): Position[][] {
+  const outer = children(polygon, 'outerBoundaryIs').flatMap((boundary) => children(boundary, 'LinearRing'));
+  const inner = children(polygon, 'innerBoundaryIs').flatMap((boundary) => children(boundary, 'LinearRing'));
+  return [...outer, ...inner].map(coordinatesOf);
+}
+
+function readGeometry(element: Element): Geometry | null {
+  switch (element.localName) {
+    case 'Point': {
+      const [position] = coordinatesOf(element);
+      return position ? { type: 'Point', coordinates: position } : null;
+    }
+    case 'LineString':
+      return { type: 'LineString', coordinates: coordinatesOf(element) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: ringsOf(element) };
+    case 'MultiGeometry': {
+      const parts = Array.from(element.children).map(readGeometry).filter((part): part is Geometry => part !== null);
+      if (parts.length === 0) return null;
+      if (parts.every((part) => part.type === 'Point')) {
+        return { type: 'MultiPoint', coordinates: parts.map((part) => (part as { coordinates: Position }).coordinates) };
+      }
+      if (parts.every((part) => part.type === 'LineString')) {
+        return { type: 'MultiLineString', coordinates: parts.map((part) => (part as { coordinates: Position[] }).coordinates) };
+      }
+      if (parts.every((part) => part.type === 'Polygon')) {
+        return { type: 'MultiPolygon', coordinates: parts.map((part) => (part as { coordinates: Position[][] }).coordinates) };
+      }
+      return { type: 'GeometryCollection', geometries: parts };
+    }
+    default:
+      return null;
+  }
+}
+
+function readProperties(placemark: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+
+  // <Data name="..."><value>...</value></Data> and <SimpleData name="...">...</SimpleData>
+  descendants(placemark, 'Data').forEach((data) => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = childText(data, 'value') ?? '';
+  });
+  descendants(placemark, 'SimpleData').forEach((data) => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = data.textContent?.trim() ?? '';
+  });
+
+  const name = childText(placemark, 'name');
+  const description = childText(placemark, 'description');
+  if (name) properties.name = name;
+  if (description && !properties.description) properties.description = description;
+
+  return properties;
+}
+
+// Every Placemark in a KML document, whatever folder it sits in
+export function parseKml(text: string): Feature[] {
+  return descendants(parseXml(text, 'kml'), 'Placemark').map((placemark) => {
+    const geometry = Array.from(placemark.children).map(readGeometry).find((candidate) => candidate !== null) ?? null;
+
+    return {
+      type: 'Feature',
+      geometry,
+      properties: readProperties(placemark),
+    };
+  });
+}
+
+function coordinatesText(positions: Position[]): string {
+  return positions.map(([longitude, latitude]) => `${longitude},${latitude}`).join(' ');
+}
+
+function polygonKml(rings: Position[][]): string {
+  const [outer, ...inner] = rings;
+  return [
+    '<Polygon>',
+    `<outerBoundaryIs><LinearRing><coordinates>${coordinatesText(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...inner.map((ring) => `<innerBoundaryIs><LinearRing><coordinates>${coordinatesText(ring)}</coordinates></LinearRing></innerBoundaryIs>`),
+    '</Polygon>',
+  ].join('');
+}
+
+function geometryKml(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${coordinatesText([geometry.coordinates])}</coordinates></Point>`;
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map((position) => geometryKml({ type: 'Point', coordinates: position })).join('')}</MultiGeometry>`;
+    case 'LineString':
+      return `<LineString><coordinates>${coordinatesText(geometry.coordinates)}</coordinates></LineString>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map((line) => geometryKml({ type: 'LineString', coordinates: line })).join('')}</MultiGeometry>`;
+    case 'Polygon':
+      return polygonKml(geometry.coordinates);
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(polygonKml).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(geometryKml).join('')}</MultiGeometry>`;
+  }
+}
+
+function placemarkKml(feature: Feature, description: string | undefined): string {
+  const { name, ...properties } = feature.properties ?? {};
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+    .join('');
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXml(String(name ?? ''))}</name>`,
+    description ? `<description>${escapeXml(description)}</description>` : '',
+    `<ExtendedData>${data}</ExtendedData>`,
+    geometryKml(feature.geometry),
+    '</Placemark>',
+  ].join('');
+}
+
+// One Folder per layer, with record fields kept in ExtendedData so the file
+// imports back into the map
+export function toKml(layers: DatasetRecords[]): string {
+  const folders = layers.map(({ dataset, records }) => [
+    `<Folder><name>${escapeXml(dataset.label)}</name>`,
+    ...records.map((record) => placemarkKml(toFeature(dataset, record), dataset.summary?.(record))),
+    '</Folder>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document><name>Parkrun &amp; Theme Park Map</name>',
+    ...folders,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
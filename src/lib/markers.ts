@@ -0,0 +1,116 @@
+import L from 'leaflet';
+
+export interface DotStyle {
+  // White dot with a dashed ring in the colour, for records that are off
+  // for now but coming back
+  hollow?: boolean;
+  // Drawn half transparent, for records kept only for reference
+  faded?: boolean;
+}
+
+function dotStyle(colour: string, { hollow, faded }: DotStyle) {
+  const fill = hollow
+    ? `background: white; border: 2px dashed ${colour}; color: ${colour};`
+    : `background: ${colour}; border: 2px solid white; color: white;`;
+  return `${fill} border-radius: 50%; box-shadow: 0 2px 4px rgba(0,0,0,0.3);${faded ? ' opacity: 0.5;' : ''}`;
+}
+
+// `label` is a single character drawn inside a slightly larger dot
+export function createDotIcon(colour: string, label?: string, style: DotStyle = {}): L.DivIcon {
+  if (label) {
+    return L.divIcon({
+      html: `<div style="${dotStyle(colour, style)} width: 16px; height: 16px; font: bold 9px/12px sans-serif; text-align: center;">${label}</div>`,
+      iconSize: [20, 20],
+      iconAnchor: [10, 10],
+      className: 'custom-marker'
+    });
+  }
+
+  return L.divIcon({
+    html: `<div style="${dotStyle(colour, style)} width: 12px; height: 12px;"></div>`,
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+    className: 'custom-marker'
+  });
+}
+
+// One dot split into a slice per colour, for records sharing a marker
+export function createGroupIcon(colours: string[]): L.DivIcon {
+  const slices = colours
+    .map((colour, index) => `${colour} ${(index / colours.length) * 100}% ${((index + 1) / colours.length) * 100}%`)
+    .join(', ');
+
+  return L.divIcon({
+    html: `<div style="background: conic-gradient(${slices}); border-radius: 50%; width: 16px; height: 16px; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3); color: white; font: bold 9px/12px sans-serif; text-align: center;">${colours.length}</div>`,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+    className: 'custom-marker'
+  });
+}
+
+const badgedIcons = new WeakMap<L.DivIcon, L.DivIcon>();
+
+// The same marker with a small "new" tag at its top right
+export function withNewBadge(icon: L.DivIcon): L.DivIcon {
+  let badged = badgedIcons.get(icon);
+  if (!badged) {
+    badged = L.divIcon({
+      ...icon.options,
+      html: `<div style="position: relative;">${icon.options.html}<span style="position: absolute; top: -9px; left: 10px; background: #dc2626; color: white; border-radius: 4px; padding: 0 3px; font: bold 8px/11px sans-serif;">new</span></div>`,
+    });
+    badgedIcons.set(icon, badged);
+  }
+  return badged;
+}
+
+// Bubble for a cluster of markers: a ring split by how many of the markers
+// have each colour, around the number of markers inside
+export function createClusterIcon(colours: string[]): L.DivIcon {
+  const counts = new Map<string, number>();
+  colours.forEach((colour) => counts.set(colour, (counts.get(colour) ?? 0) + 1));
+
+  let start = 0;
+  const slices = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([colour, count]) => {
+      const end = start + (count / colours.length) * 100;
+      const slice = `${colour} ${start}% ${end}%`;
+      start = end;
+      return slice;
+    })
+    .join(', ');
+  const size = colours.length < 10 ? 30 : colours.length < 100 ? 36 : 44;
+
+  return L.divIcon({
+    html: `<div style="background: conic-gradient(${slices}); border-radius: 50%; width: ${size}px; height: ${size}px; padding: 5px; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"><div style="background: white; border-radius: 50%; width: 100%; height: 100%; color: #1f2937; font: bold 11px/${size - 10}px sans-serif; text-align: center;">${colours.length}</div></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    className: 'custom-marker'
+  });
+}
+
+// Canvas counterpart of createDotIcon, for when there are too many points
+// for HTML markers. Labels can't be drawn, so labelled dots are just larger.
+export function createDotStyle(colour: string, label?: string, { hollow, faded }: DotStyle = {}): L.CircleMarkerOptions {
+  return {
+    radius: label ? 7 : 5,
+    color: hollow ? colour : 'white',
+    weight: 2,
+    dashArray: hollow ? '2 2' : undefined,
+    fillColor: hollow ? 'white' : colour,
+    opacity: faded ? 0.5 : 1,
+    fillOpacity: faded ? 0.5 : 1,
+  };
+}
+
+const outlinedStyles = new WeakMap<L.CircleMarkerOptions, L.CircleMarkerOptions>();
+
+// A canvas dot can't carry a "new" tag, so it gets a red ring instead
+export function withNewOutline(style: L.CircleMarkerOptions): L.CircleMarkerOptions {
+  let outlined = outlinedStyles.get(style);
+  if (!outlined) {
+    outlined = { ...style, color: '#dc2626', weight: 3, dashArray: undefined };
+    outlinedStyles.set(style, outlined);
+  }
+  return outlined;
+}
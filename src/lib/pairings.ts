@@ -0,0 +1,97 @@
+import Papa from 'papaparse';
+import { EVENT_TYPE_LABELS, parkrunDataset, themeParkDataset, type DatasetDefinition } from '@/lib/datasets';
+import { applyFilters } from '@/lib/filters';
+import { pairRecords } from '@/lib/proximity';
+import type { EventType, MapPoint, ParkrunEvent, ThemePark } from '@/lib/types';
+
+// A theme park and the parkrun closest to it
+export interface Pairing {
+  park: ThemePark;
+  parkrun: ParkrunEvent;
+  distanceKm: number;
+}
+
+export interface PairingFilters {
+  maxDistanceKm: number;
+  // Only pair with 5k or junior events
+  eventType?: EventType;
+  // Country of the theme park
+  country?: string;
+}
+
+export const PAIRING_DISTANCE_RANGE = { min: 5, max: 100, step: 5 };
+
+export type PairingColumn = 'park' | 'country' | 'parkrun' | 'eventType' | 'region' | 'distance';
+
+export interface PairingSort {
+  column: PairingColumn;
+  descending: boolean;
+}
+
+const PAIRING_VALUES: Record<PairingColumn, (pairing: Pairing) => string | number> = {
+  park: ({ park }) => park.name,
+  country: ({ park }) => park.country,
+  parkrun: ({ parkrun }) => parkrun.name,
+  eventType: ({ parkrun }) => EVENT_TYPE_LABELS[parkrun.eventType],
+  region: ({ parkrun }) => parkrun.region,
+  distance: ({ distanceKm }) => distanceKm,
+};
+
+// Every theme park with a parkrun within the distance, paired with the
+// closest one. Retired events are left out, as they are on the map.
+export function findPairings(
+  datasets: DatasetDefinition[],
+  records: Record<string, MapPoint[]>,
+  { maxDistanceKm, eventType, country }: PairingFilters,
+): Pairing[] {
+  const candidates = Object.fromEntries(datasets
+    .filter((dataset) => records[dataset.id])
+    .map((dataset) => {
+      let kept = applyFilters(dataset, records[dataset.id], {});
+      if (dataset.recordType === parkrunDataset.recordType && eventType) {
+        kept = (kept as ParkrunEvent[]).filter((parkrun) => parkrun.eventType === eventType);
+      }
+      if (dataset.recordType === themeParkDataset.recordType && country) {
+        kept = (kept as ThemePark[]).filter((park) => park.country === country);
+      }
+      return [dataset.id, kept];
+    }));
+
+  const nearest = pairRecords(datasets, candidates, themeParkDataset.recordType, parkrunDataset.recordType, {
+    radiusKm: maxDistanceKm,
+    limit: 1,
+  });
+  return [...nearest.entries()]
+    .filter(([, nearby]) => nearby.length > 0)
+    .map(([park, [{ record, distanceKm }]]) => ({
+      park: park as ThemePark,
+      parkrun: record as ParkrunEvent,
+      distanceKm,
+    }));
+}
+
+export function sortPairings(pairings: Pairing[], { column, descending }: PairingSort): Pairing[] {
+  const value = PAIRING_VALUES[column];
+  const sorted = [...pairings].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    return typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : String(x).localeCompare(String(y), undefined, { numeric: true });
+  });
+  return descending ? sorted.reverse() : sorted;
+}
+
+export function pairingsToCsv(pairings: Pairing[]): string {
+  return Papa.unparse({
+    fields: ['theme_park', 'country', 'parkrun', 'event_type', 'region', 'distance_km'],
+    data: pairings.map(({ park, parkrun, distanceKm }) => [
+      park.name,
+      park.country,
+      parkrun.name,
+      EVENT_TYPE_LABELS[parkrun.eventType],
+      parkrun.region,
+      distanceKm.toFixed(1),
+    ]),
+  });
+}
@@ -0,0 +1,105 @@
+import Papa from 'papaparse';
+import { loadBoundaries, UK_COUNTY_BOUNDARIES_URL, type BoundaryIndex } from '@/lib/boundaries';
+import { COURSE_CSV_URL, loadCourses } from '@/lib/courses';
+import { fetchCsv } from '@/lib/csv';
+import { applyEventDetails, type EventDetailsList } from '@/lib/event-details';
+import { EVENT_STATUS_CSV_URL, loadEventStatuses } from '@/lib/event-status';
+import { uniqueSlugs } from '@/lib/slugs';
+import type { DatasetLoadResult, EventType, ParkrunEvent, SourceRow } from '@/lib/types';
+import { fileUnavailable, type ValidationIssue } from '@/lib/validation';
+
+export const PARKRUN_CSV_URL = '/uk-parkruns.csv';
+
+// Used for events outside every bundled county
+const UNKNOWN_COUNTRY = 'UK';
+
+// Junior events are named after their 5k counterpart or venue plus "juniors"
+export function classifyEventType(name: string): EventType {
+  return /\bjuniors?\b/i.test(name) ? 'junior' : 'fiveK';
+}
+
+// uk-parkruns.csv has no header: name, location, latitude, longitude
+export function parseParkrunCsv(text: string): DatasetLoadResult<ParkrunEvent> {
+  const parsed = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  const rows: SourceRow<ParkrunEvent>[] = [];
+  const issues: ValidationIssue[] = parsed.errors.map((error) => ({
+    row: (error.row ?? 0) + 1,
+    field: 'record',
+    reason: error.message,
+  }));
+
+  parsed.data.forEach((fields, index) => {
+    const row = index + 1;
+    if (fields.length !== 4) {
+      issues.push({ row, field: 'record', reason: `Expected 4 columns, found ${fields.length}` });
+      return;
+    }
+
+    const [name, location, lat, lng] = fields.map((field) => field.trim());
+
+    rows.push({
+      row,
+      record: {
+        id: '',
+        eventType: classifyEventType(name),
+        name,
+        latitude: parseFloat(lat),
+        longitude: parseFloat(lng),
+        venue: location,
+        country: UNKNOWN_COUNTRY,
+        region: '',
+        status: 'active',
+      },
+    });
+  });
+
+  // Events that share a name are told apart by their venue
+  const ids = uniqueSlugs(rows.map(({ record }) => ({ name: record.name, qualifier: record.venue })));
+  rows.forEach(({ record }, index) => {
+    record.id = ids[index];
+  });
+
+  return { rows, issues };
+}
+
+// Fills in the nation and county of each event from the bundled boundaries
+export function locateParkruns(
+  { rows, issues }: DatasetLoadResult<ParkrunEvent>,
+  counties: BoundaryIndex,
+): DatasetLoadResult<ParkrunEvent> {
+  return {
+    rows: rows.map(({ row, record }) => {
+      const county = counties.locate([record.longitude, record.latitude]);
+      if (!county) return { row, record };
+
+      return { row, record: { ...record, country: county.country ?? UNKNOWN_COUNTRY, region: county.name } };
+    }),
+    issues,
+  };
+}
+
+// A details file that fails to load leaves the events without those details
+function detailsOrNone<T extends Partial<ParkrunEvent>>(
+  list: Promise<EventDetailsList<T>>,
+  source: string,
+): Promise<EventDetailsList<T>> {
+  return list.catch((error: Error) => ({ source, details: new Map(), issues: [fileUnavailable(source, error)] }));
+}
+
+// Statuses and course details come from parkrun-status.csv and
+// parkrun-courses.csv, since the event list has no columns for them. Only
+// the event list has to load; the other files are reported when they don't.
+export async function loadParkruns(url = PARKRUN_CSV_URL): Promise<DatasetLoadResult<ParkrunEvent>> {
+  const [text, counties, statuses, courses] = await Promise.all([
+    fetchCsv(url),
+    loadBoundaries(UK_COUNTY_BOUNDARIES_URL).catch((error: Error) => error),
+    detailsOrNone(loadEventStatuses(), EVENT_STATUS_CSV_URL),
+    detailsOrNone(loadCourses(), COURSE_CSV_URL),
+  ]);
+
+  const events = parseParkrunCsv(text);
+  const located = counties instanceof Error
+    ? { ...events, issues: [...events.issues, fileUnavailable(UK_COUNTY_BOUNDARIES_URL, counties)] }
+    : locateParkruns(events, counties);
+  return applyEventDetails(applyEventDetails(located, statuses), courses);
+}
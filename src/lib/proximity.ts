@@ -0,0 +1,85 @@
+import type { PlacedRecord } from '@/lib/colocation';
+import { parkrunDataset, themeParkDataset, type DatasetDefinition } from '@/lib/datasets';
+import { haversineDistance, KM_PER_DEGREE } from '@/lib/geometry';
+import { indexPoints } from '@/lib/spatial-index';
+import type { MapPoint } from '@/lib/types';
+
+// Parkruns further than this from a theme park aren't paired with it
+export const DEFAULT_PAIRING_RADIUS_KM = 30;
+
+export interface NearbyRecord extends PlacedRecord {
+  // Great-circle distance from where the search started
+  distanceKm: number;
+}
+
+export interface ProximityOptions {
+  radiusKm: number;
+  // Most records to return; all of them within the radius when left out
+  limit?: number;
+}
+
+export interface ProximityIndex {
+  // Records within the radius of a point, nearest first
+  near(latitude: number, longitude: number, options: ProximityOptions): NearbyRecord[];
+}
+
+// Longitude lines meet at the poles, so a degree of longitude is never
+// treated as shorter than this share of a degree of latitude
+const MIN_LONGITUDE_SCALE = 0.01;
+
+export function indexProximity(placed: PlacedRecord[]): ProximityIndex {
+  const points = indexPoints(placed.map((entry) => ({
+    ...entry,
+    latitude: entry.record.latitude,
+    longitude: entry.record.longitude,
+  })));
+
+  return {
+    near: (latitude, longitude, { radiusKm, limit }) => {
+      // Narrow down to a box around the circle before measuring anything
+      const latitudeSpan = radiusKm / KM_PER_DEGREE;
+      const longitudeSpan = latitudeSpan / Math.max(Math.cos((latitude * Math.PI) / 180), MIN_LONGITUDE_SCALE);
+      const nearby = points
+        .search({
+          south: latitude - latitudeSpan,
+          north: latitude + latitudeSpan,
+          west: longitude - longitudeSpan,
+          east: longitude + longitudeSpan,
+        })
+        .map(({ dataset, record }) => ({
+          dataset,
+          record,
+          distanceKm: haversineDistance([longitude, latitude], [record.longitude, record.latitude]),
+        }))
+        .filter(({ distanceKm }) => distanceKm <= radiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm);
+
+      return limit === undefined ? nearby : nearby.slice(0, limit);
+    },
+  };
+}
+
+// Every record of one kind with the records of another kind near it,
+// nearest first. Both kinds include layers imported as that kind.
+export function pairRecords(
+  datasets: DatasetDefinition[],
+  records: Record<string, MapPoint[]>,
+  originType: string,
+  nearbyType: string,
+  options: ProximityOptions,
+): Map<MapPoint, NearbyRecord[]> {
+  const placed = (recordType: string) => datasets
+    .filter((dataset) => dataset.recordType === recordType)
+    .flatMap((dataset) => (records[dataset.id] ?? []).map((record) => ({ dataset, record })));
+
+  const index = indexProximity(placed(nearbyType));
+  return new Map(placed(originType).map(({ record }) => [record, index.near(record.latitude, record.longitude, options)]));
+}
+
+export function pairThemeParksWithParkruns(
+  datasets: DatasetDefinition[],
+  records: Record<string, MapPoint[]>,
+  options: ProximityOptions = { radiusKm: DEFAULT_PAIRING_RADIUS_KM },
+): Map<MapPoint, NearbyRecord[]> {
+  return pairRecords(datasets, records, themeParkDataset.recordType, parkrunDataset.recordType, options);
+}
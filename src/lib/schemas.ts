@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Generous box around Great Britain, Northern Ireland and the Channel Islands
+export const UK_BOUNDS: Bounds = { south: 49, west: -8.7, north: 61, east: 2 };
+
+export const inBounds = (latitude: number, longitude: number, bounds: Bounds) =>
+  latitude >= bounds.south && latitude <= bounds.north &&
+  longitude >= bounds.west && longitude <= bounds.east;
+
+// Range checks shared by every point dataset. When `bounds` is given, points
+// that only land inside it once latitude and longitude are exchanged are
+// reported as swapped.
+export function checkCoordinates(bounds?: Bounds) {
+  return (point: { latitude: number; longitude: number }, ctx: z.RefinementCtx) => {
+    const { latitude, longitude } = point;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return;
+
+    const looksSwapped = Math.abs(latitude) > 90 && Math.abs(longitude) <= 90;
+
+    if (Math.abs(latitude) > 90) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['latitude'],
+        message: looksSwapped
+          ? `Latitude ${latitude} is out of range; latitude and longitude look swapped`
+          : `Latitude ${latitude} is outside -90 to 90`,
+      });
+    }
+    if (Math.abs(longitude) > 180) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['longitude'],
+        message: `Longitude ${longitude} is outside -180 to 180`,
+      });
+    }
+
+    if (bounds && !looksSwapped && !inBounds(latitude, longitude, bounds) && inBounds(longitude, latitude, bounds)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['latitude'],
+        message: `Latitude ${latitude} and longitude ${longitude} look swapped`,
+      });
+    }
+  };
+}
+
+const coordinate = (field: string) =>
+  z.number({ invalid_type_error: `${field} must be a number` })
+    .refine(Number.isFinite, `${field} must be a number`);
+
+const isoDate = (field: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field} must be YYYY-MM-DD`);
+
+export const parkrunEventSchema = z.object({
+  id: z.string().min(1, 'Id is empty'),
+  eventType: z.enum(['fiveK', 'junior']),
+  name: z.string().trim().min(1, 'Name is empty'),
+  latitude: coordinate('Latitude'),
+  longitude: coordinate('Longitude'),
+  venue: z.string(),
+  country: z.string(),
+  region: z.string(),
+  status: z.enum(['active', 'cancelled', 'paused', 'retired']),
+  statusFrom: isoDate('From date').optional(),
+  statusUntil: isoDate('Until date').optional(),
+  statusNote: z.string().optional(),
+  surface: z.enum(['tarmac', 'trail', 'grass', 'mixed']).optional(),
+  terrain: z.enum(['flat', 'undulating', 'hilly']).optional(),
+  laps: z.number().int('Laps must be a whole number').positive('Laps must be at least 1').optional(),
+  elevationGain: z.number().nonnegative('Elevation gain must not be negative').optional(),
+  buggyFriendly: z.boolean().optional(),
+}).refine((event) => event.status !== 'cancelled' || (event.statusFrom && event.statusUntil), {
+  path: ['statusUntil'],
+  message: 'Cancellations need a from and an until date',
+}).superRefine(checkCoordinates(UK_BOUNDS));
+
+export const themeParkSchema = z.object({
+  id: z.string().min(1, 'Id is empty'),
+  name: z.string().trim().min(1, 'Name is empty'),
+  latitude: coordinate('Latitude'),
+  longitude: coordinate('Longitude'),
+  parkType: z.enum(['themePark', 'waterPark', 'indoor', 'marinePark']),
+  country: z.string(),
+  state: z.string().optional(),
+  // z.string().url() also takes javascript: and data: URLs, which would run
+  // when the popup's link is clicked
+  website: z.string()
+    .url('Website must be a full URL')
+    .refine((url) => /^https?:\/\//i.test(url), 'Website must be an http or https URL')
+    .optional(),
+  season: z.string().optional(),
+  rollercoasters: z.number().int('Rollercoasters must be a whole number').nonnegative('Rollercoasters must not be negative').optional(),
+  description: z.string().optional(),
+}).superRefine(checkCoordinates());
+
+export const customPointSchema = z.object({
+  name: z.string().trim().min(1, 'Name is empty'),
+  latitude: coordinate('Latitude'),
+  longitude: coordinate('Longitude'),
+  description: z.string().optional(),
+}).superRefine(checkCoordinates());
@@ -0,0 +1,51 @@
+import type { MapPoint } from '@/lib/types';
+
+// Lower-case words joined by hyphens, so "Astérix Park" becomes
+// "asterix-park" and "Alexandra juniors, Moss Side"
+// "alexandra-juniors-moss-side". Accents are dropped from Latin letters but
+// other scripts are kept, so "東京ディズニーランド" still has an id.
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Joins a slug to what tells it apart. Slugs never hold two hyphens in a
+// row, so the result can't clash with another entry's plain slug.
+const SEPARATOR = '--';
+
+// One id per entry, built from its name. Names that clash are told apart by
+// their qualifier, such as the venue, and only then by a number in file
+// order. Ids therefore only change when the entry itself, or another with
+// the same name, changes.
+export function uniqueSlugs(entries: { name: string; qualifier?: string }[]): string[] {
+  const slugs = entries.map(({ name }) => slugify(name));
+  const counts = new Map<string, number>();
+  slugs.forEach((slug) => counts.set(slug, (counts.get(slug) ?? 0) + 1));
+
+  const qualified = slugs.map((slug, index) => {
+    const qualifier = slugify(entries[index].qualifier ?? '');
+    return counts.get(slug) > 1 && qualifier ? `${slug}${SEPARATOR}${qualifier}` : slug;
+  });
+
+  // A numbered id skips over every unnumbered one, even those handed out
+  // later in the file
+  const reserved = new Set(qualified);
+  const used = new Set<string>();
+  return qualified.map((slug) => {
+    let id = slug;
+    for (let suffix = 2; used.has(id) || (id !== slug && reserved.has(id)); suffix++) {
+      id = `${slug}${SEPARATOR}${suffix}`;
+    }
+    used.add(id);
+    return id;
+  });
+}
+
+// Published records have a slug id; anything else falls back to its name
+export const recordId = (record: MapPoint) => ('id' in record && typeof record.id === 'string' ? record.id : record.name);
@@ -0,0 +1,56 @@
+import { inBounds, type Bounds } from '@/lib/schemas';
+
+// Size of each grid cell in degrees. Half a degree keeps a UK county to a
+// handful of cells, so a zoomed-in view only looks at the points near it.
+const CELL_DEGREES = 0.5;
+
+export interface PointIndex<T> {
+  // Every point inside the bounds, in no particular order
+  search(bounds: Bounds): T[];
+}
+
+const cellOf = (degrees: number) => Math.floor(degrees / CELL_DEGREES);
+
+// Buckets points into a fixed grid of latitude and longitude cells
+export function indexPoints<T extends { latitude: number; longitude: number }>(points: T[]): PointIndex<T> {
+  const cells = new Map<string, T[]>();
+  points.forEach((point) => {
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) return;
+
+    const key = `${cellOf(point.latitude)}:${cellOf(point.longitude)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  });
+
+  return {
+    search: (bounds) => {
+      // Leaflet's bounds run past ±180 once the world wraps; clamping them
+      // keeps a zoomed-out view from walking thousands of empty cells
+      const clamped = {
+        south: Math.max(bounds.south, -90),
+        north: Math.min(bounds.north, 90),
+        west: bounds.east - bounds.west >= 360 ? -180 : Math.max(bounds.west, -180),
+        east: bounds.east - bounds.west >= 360 ? 180 : Math.min(bounds.east, 180),
+      };
+      const rows = cellOf(clamped.north) - cellOf(clamped.south) + 1;
+      const columns = cellOf(clamped.east) - cellOf(clamped.west) + 1;
+
+      let candidates: T[][];
+      if (rows * columns > cells.size) {
+        // Cheaper to check every occupied cell than every cell in view
+        candidates = [...cells.values()];
+      } else {
+        candidates = [];
+        for (let row = cellOf(clamped.south); row <= cellOf(clamped.north); row++) {
+          for (let column = cellOf(clamped.west); column <= cellOf(clamped.east); column++) {
+            const cell = cells.get(`${row}:${column}`);
+            if (cell) candidates.push(cell);
+          }
+        }
+      }
+
+      return candidates.flatMap((cell) => cell.filter(({ latitude, longitude }) => inBounds(latitude, longitude, clamped)));
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import type { Geometry } from 'geojson';
+import Papa from 'papaparse';
+import { COUNTRY_BOUNDARIES_URL, loadBoundaries, REGION_BOUNDARIES_URL, type BoundaryIndex } from '@/lib/boundaries';
+import { DatasetFormatError, fetchCsv } from '@/lib/csv';
+import { centroid } from '@/lib/geometry';
+import { uniqueSlugs } from '@/lib/slugs';
+import type { DatasetLoadResult, SourceRow, ThemePark, ThemeParkType } from '@/lib/types';
+import { fileUnavailable, type ValidationIssue } from '@/lib/validation';
+import { parseWkt } from '@/lib/wkt';
+
+export const THEME_PARK_CSV_URL = '/themeparks.csv';
+
+const REQUIRED_COLUMNS = ['wkt', 'name'];
+
+// Used for parks outside every bundled boundary
+const UNKNOWN_COUNTRY = 'International';
+
+// Parks closer than this many kilometres to another division's border get
+// no state, since the border may be on either side of them. Simplifying
+// the divisions moves their borders by up to a kilometre, and amCharts
+// draws the emirates' borders a couple of kilometres out, which puts the
+// parks at Jebel Ali in Abu Dhabi rather than Dubai.
+const BORDER_MARGIN_KM = 1;
+const COUNTRY_BORDER_MARGIN_KM: Record<string, number> = {
+  'United Arab Emirates': 3,
+};
+
+export const THEME_PARK_TYPE_LABELS: Record<ThemeParkType, string> = {
+  themePark: 'Theme park',
+  waterPark: 'Water park',
+  indoor: 'Indoor theme park',
+  marinePark: 'Marine park',
+};
+
+// For parks without a type column, going by names like "Wet'n'Wild Gold
+// Coast", "SeaWorld Abu Dhabi" and "Plopsa Indoor Hasselt". Parks that add
+// a water park to a theme park, like "Dorney Park & Wildwater Kingdom",
+// count as theme parks.
+export function classifyThemePark(name: string): ThemeParkType {
+  if (/\bindoor\b/i.test(name)) return 'indoor';
+  if (/\bsea ?world\b|\bmarineland\b/i.test(name)) return 'marinePark';
+  if (/\bwet'?n'?wild\b|\b(water|aqua) ?park$/i.test(name)) return 'waterPark';
+  return 'themePark';
+}
+
+const TYPE_NAMES: Record<string, ThemeParkType> = {
+  themepark: 'themePark',
+  waterpark: 'waterPark',
+  indoor: 'indoor',
+  indoorpark: 'indoor',
+  indoorthemepark: 'indoor',
+  marinepark: 'marinePark',
+};
+
+// 'Water park', 'waterpark' and 'water_park' all read as water parks.
+// Anything else is passed on for the schema to report.
+export function parseThemeParkType(text: string): ThemeParkType {
+  return TYPE_NAMES[text.toLowerCase().replace(/[^a-z]/g, '')] ?? (text as ThemeParkType);
+}
+
+// themeparks.csv is a Google My Maps style export: WKT, name, description.
+// Optional country and state columns override the boundary lookup, and
+// optional type, website, season and rollercoasters columns describe the
+// park.
+export function parseThemeParkCsv(text: string, source = THEME_PARK_CSV_URL): DatasetLoadResult<ThemePark> {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase(),
+  });
+
+  const columns = parsed.meta.fields ?? [];
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new DatasetFormatError(source, 'csv', `${source} is missing the ${missing.join(' and ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+
+  const rows: SourceRow<ThemePark>[] = [];
+  const issues: ValidationIssue[] = parsed.errors.map((error) => ({
+    row: (error.row ?? 0) + 2,
+    field: 'record',
+    reason: error.message,
+  }));
+
+  parsed.data.forEach((item, index) => {
+    // Row numbers match file lines, counting the header
+    const row = index + 2;
+    let geometry: Geometry;
+    try {
+      geometry = parseWkt(item.wkt ?? '');
+    } catch (error) {
+      issues.push({ row, field: 'wkt', reason: `${(error as Error).message} in "${item.wkt ?? ''}"` });
+      return;
+    }
+
+    const [longitude, latitude] = centroid(geometry);
+    const name = item.name?.trim() ?? '';
+    const parkType = (item.type ?? item.category)?.trim();
+    const rollercoasters = (item.rollercoasters ?? item.coasters)?.trim();
+
+    rows.push({
+      row,
+      record: {
+        id: '',
+        name,
+        latitude,
+        longitude,
+        parkType: parkType ? parseThemeParkType(parkType) : classifyThemePark(name),
+        country: item.country?.trim() ?? '',
+        ...(item.state?.trim() && { state: item.state.trim() }),
+        ...(item.website?.trim() && { website: item.website.trim() }),
+        ...(item.season?.trim() && { season: item.season.trim() }),
+        ...(rollercoasters && { rollercoasters: Number(rollercoasters) }),
+        ...(item.description?.trim() && { description: item.description.trim() }),
+        // Outlines are drawn for anything bigger than a point
+        ...(geometry.type !== 'Point' && { geometry }),
+      },
+    });
+  });
+
+  const ids = uniqueSlugs(rows.map(({ record }) => ({ name: record.name })));
+  rows.forEach(({ record }, index) => {
+    record.id = ids[index];
+  });
+
+  return { rows, issues };
+}
+
+// Fills in the country and state of parks the file didn't give one for
+export function locateThemeParks(
+  { rows, issues }: DatasetLoadResult<ThemePark>,
+  countries: BoundaryIndex,
+  regions: BoundaryIndex,
+): DatasetLoadResult<ThemePark> {
+  return {
+    rows: rows.map(({ row, record }) => {
+      if (record.country) return { row, record };
+
+      // Divisions are drawn in more detail, so a park inside one is placed
+      // by it before the coarser country borders are tried
+      const position = [record.longitude, record.latitude];
+      const inside = regions.locate(position, 0);
+      const country = inside?.country ?? countries.locate(position)?.name;
+      const margin = COUNTRY_BORDER_MARGIN_KM[country] ?? BORDER_MARGIN_KM;
+      const nearBorder = inside && regions
+        .near(position, margin)
+        .some((other) => other.code !== inside.code && other.country === inside.country);
+      const region = nearBorder ? null : inside ?? regions.locate(position);
+
+      return {
+        row,
+        record: {
+          ...record,
+          country: country ?? UNKNOWN_COUNTRY,
+          ...(region && region.country === country && !record.state && { state: region.name }),
+        },
+      };
+    }),
+    issues,
+  };
+}
+
+// Parks still load when a boundary file doesn't, keeping only the country
+// and state the file gives them
+export async function loadThemeParks(url = THEME_PARK_CSV_URL): Promise<DatasetLoadResult<ThemePark>> {
+  const [text, countries, regions] = await Promise.all([
+    fetchCsv(url),
+    loadBoundaries(COUNTRY_BOUNDARIES_URL).catch((error: Error) => error),
+    loadBoundaries(REGION_BOUNDARIES_URL).catch((error: Error) => error),
+  ]);
+
+  const parks = parseThemeParkCsv(text, url);
+  if (!(countries instanceof Error) && !(regions instanceof Error)) {
+    return locateThemeParks(parks, countries, regions);
+  }
+
+  return {
+    rows: parks.rows.map(({ row, record }) => ({ row, record: { ...record, country: record.country || UNKNOWN_COUNTRY } })),
+    issues: [
+      ...parks.issues,
+      ...(countries instanceof Error ? [fileUnavailable(COUNTRY_BOUNDARIES_URL, countries)] : []),
+      ...(regions instanceof Error ? [fileUnavailable(REGION_BOUNDARIES_URL, regions)] : []),
+    ],
+  };
+}
@@ -0,0 +1,81 @@
+import type { Geometry } from 'geojson';
+import type { ValidationIssue } from '@/lib/validation';
+
+export interface MapPoint {
+  name: string;
+  // Marker position; the centroid when the record has an outline
+  latitude: number;
+  longitude: number;
+  geometry?: Geometry;
+}
+
+// 5k events run on Saturdays; 2k junior events run on Sundays for 4-14s
+export type EventType = 'fiveK' | 'junior';
+
+// Cancelled events are off for a set period, paused ones until further
+// notice, and retired ones for good
+export type EventStatus = 'active' | 'cancelled' | 'paused' | 'retired';
+
+// Mixed courses run on more than one surface, such as grass and trail
+export type CourseSurface = 'tarmac' | 'trail' | 'grass' | 'mixed';
+export type CourseTerrain = 'flat' | 'undulating' | 'hilly';
+
+export interface ParkrunEvent extends MapPoint {
+  // Slug of the event name, such as 'alexandra-juniors-moss-side', that
+  // stays the same when other events are added or removed
+  id: string;
+  eventType: EventType;
+  // Park or course the event is held at, as listed by parkrun
+  venue: string;
+  // Nation, such as 'Northern Ireland'
+  country: string;
+  // County or unitary authority, such as 'County Down'
+  region: string;
+  status: EventStatus;
+  // ISO dates (YYYY-MM-DD) the status applies from and, for cancellations,
+  // until, inclusive
+  statusFrom?: string;
+  statusUntil?: string;
+  // Reason given for the status, such as 'Course resurfacing'
+  statusNote?: string;
+  // Course details, where parkrun-courses.csv lists them
+  surface?: CourseSurface;
+  terrain?: CourseTerrain;
+  laps?: number;
+  // Total climb over the course, in metres
+  elevationGain?: number;
+  buggyFriendly?: boolean;
+}
+
+// Indoor parks are theme parks under one roof
+export type ThemeParkType = 'themePark' | 'waterPark' | 'indoor' | 'marinePark';
+
+export interface ThemePark extends MapPoint {
+  // Slug of the park name, such as 'asterix-park'
+  id: string;
+  parkType: ThemeParkType;
+  country: string;
+  state?: string;
+  website?: string;
+  // When the park opens, as free text such as 'April to November'
+  season?: string;
+  rollercoasters?: number;
+  description?: string;
+}
+
+// A point from a user's own file
+export interface CustomPoint extends MapPoint {
+  description?: string;
+}
+
+export interface SourceRow<T> {
+  row: number;
+  record: T;
+}
+
+// Candidate records straight from a source file, before schema validation,
+// plus the rows that could not be turned into a record at all
+export interface DatasetLoadResult<T extends MapPoint> {
+  rows: SourceRow<T>[];
+  issues: ValidationIssue[];
+}
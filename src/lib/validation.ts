@@ -0,0 +1,72 @@
+import type { ZodTypeAny } from 'zod';
+import type { DatasetLoadResult, MapPoint } from '@/lib/types';
+
+export interface ValidationIssue {
+  // Line in the source file, or the position of the feature for non-CSV sources
+  row: number;
+  field: string;
+  reason: string;
+  // File the row is in, when it isn't the dataset's own, such as
+  // parkrun-status.csv for the parkrun layers
+  source?: string;
+}
+
+// Reported in place of the rows of a supporting file that failed to load
+export const fileUnavailable = (source: string, error: Error): ValidationIssue => ({
+  row: 0,
+  field: 'record',
+  reason: `Could not load the file: ${error.message}`,
+  source,
+});
+
+export interface ValidationReport {
+  datasetId: string;
+  total: number;
+  valid: number;
+  issues: ValidationIssue[];
+}
+
+export interface ValidatedDataset<T extends MapPoint> {
+  records: T[];
+  report: ValidationReport;
+}
+
+export function validateDataset<T extends MapPoint>(
+  datasetId: string,
+  schema: ZodTypeAny,
+  { rows, issues }: DatasetLoadResult<T>,
+): ValidatedDataset<T> {
+  const records: T[] = [];
+  const allIssues = [...issues];
+
+  rows.forEach(({ row, record }) => {
+    const result = schema.safeParse(record);
+    if (result.success) {
+      records.push(record);
+      return;
+    }
+
+    result.error.issues.forEach((issue) => {
+      allIssues.push({
+        row,
+        field: issue.path.join('.') || 'record',
+        reason: issue.message,
+      });
+    });
+  });
+
+  // The dataset's own rows come first, then each other file's in turn
+  allIssues.sort((a, b) => (a.source ?? '').localeCompare(b.source ?? '') || a.row - b.row);
+  // Rows of other files don't hold records, so they aren't counted
+  const ownIssues = issues.filter((issue) => !issue.source);
+
+  return {
+    records,
+    report: {
+      datasetId,
+      total: rows.length + new Set(ownIssues.map((issue) => issue.row)).size,
+      valid: records.length,
+      issues: allIssues,
+    },
+  };
+}
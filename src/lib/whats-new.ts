@@ -0,0 +1,157 @@
+import { haversineDistance } from '@/lib/geometry';
+import { recordId } from '@/lib/slugs';
+import type { MapPoint } from '@/lib/types';
+
+const SEEN_KEY = 'parkrun-theme-map:seen';
+const BADGE_DAYS_KEY = 'parkrun-theme-map:new-badge-days';
+// Copy of SEEN_KEY from when this visit began, in sessionStorage
+const VISIT_BASELINE_KEY = 'parkrun-theme-map:seen-before-visit';
+
+// Moves shorter than this are usually a pin being nudged, not a new course
+const RELOCATED_KM = 0.1;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const NEW_BADGE_PERIODS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: '30 days' },
+];
+
+export const DEFAULT_NEW_BADGE_DAYS = 7;
+
+export interface SeenEntry {
+  name: string;
+  latitude: number;
+  longitude: number;
+  // When an entry first turned up after the dataset was already known.
+  // Entries from the first visit have none, so they're never new.
+  firstSeen?: number;
+}
+
+// What one dataset held on the last visit, by record id
+export type SeenDataset = Record<string, SeenEntry>;
+
+export type SeenDatasets = Record<string, SeenDataset>;
+
+export interface Relocation {
+  id: string;
+  name: string;
+  from: SeenEntry;
+  to: MapPoint;
+  distanceKm: number;
+}
+
+export interface DatasetChanges {
+  added: MapPoint[];
+  removed: (SeenEntry & { id: string })[];
+  relocated: Relocation[];
+}
+
+// Unreadable or blocked storage counts as a first visit, and private
+// browsing can refuse writes, in which case nothing carries over
+// `session` uses sessionStorage, which lasts as long as the tab
+function readStorage(key: string, session = false): string | null {
+  try {
+    return (session ? sessionStorage : localStorage).getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string, session = false) {
+  try {
+    (session ? sessionStorage : localStorage).setItem(key, value);
+  } catch {
+    // Nothing to do; the next visit starts afresh
+  }
+}
+
+export function readSeenDatasets(): SeenDatasets {
+  try {
+    return JSON.parse(readStorage(SEEN_KEY) ?? '{}') as SeenDatasets;
+  } catch {
+    return {};
+  }
+}
+
+// What had been seen before this visit. The first read in a tab keeps a
+// copy for the rest of the visit, since the datasets are marked as seen as
+// soon as they load; going to another page and back, or reloading, still
+// compares them with the last visit.
+export function readVisitBaseline(): SeenDatasets {
+  const kept = readStorage(VISIT_BASELINE_KEY, true);
+  if (kept) {
+    try {
+      return JSON.parse(kept) as SeenDatasets;
+    } catch {
+      // Read the stored datasets afresh below
+    }
+  }
+
+  const baseline = readSeenDatasets();
+  writeStorage(VISIT_BASELINE_KEY, JSON.stringify(baseline), true);
+  return baseline;
+}
+
+export function writeSeenDatasets(seen: SeenDatasets) {
+  writeStorage(SEEN_KEY, JSON.stringify(seen));
+}
+
+export function readNewBadgeDays(): number {
+  const days = Number(readStorage(BADGE_DAYS_KEY));
+  return NEW_BADGE_PERIODS.some((period) => period.days === days) ? days : DEFAULT_NEW_BADGE_DAYS;
+}
+
+export function writeNewBadgeDays(days: number) {
+  writeStorage(BADGE_DAYS_KEY, String(days));
+}
+
+export function diffDataset(previous: SeenDataset | undefined, records: MapPoint[]): DatasetChanges {
+  // Nothing to compare against on the first visit
+  if (!previous) return { added: [], removed: [], relocated: [] };
+
+  const current = new Map(records.map((record) => [recordId(record), record]));
+  const relocated: Relocation[] = [];
+  records.forEach((record) => {
+    const id = recordId(record);
+    const before = previous[id];
+    if (!before) return;
+
+    const distanceKm = haversineDistance([before.longitude, before.latitude], [record.longitude, record.latitude]);
+    if (distanceKm >= RELOCATED_KM) relocated.push({ id, name: record.name, from: before, to: record, distanceKm });
+  });
+
+  return {
+    added: records.filter((record) => !previous[recordId(record)]),
+    removed: Object.entries(previous)
+      .filter(([id]) => !current.has(id))
+      .map(([id, entry]) => ({ id, ...entry })),
+    relocated,
+  };
+}
+
+// The fingerprint to store for this visit. Entries keep the date they first
+// turned up; ones new since the last visit are stamped with `now`.
+export function fingerprintDataset(previous: SeenDataset | undefined, records: MapPoint[], now: number): SeenDataset {
+  return Object.fromEntries(records.map((record) => {
+    const id = recordId(record);
+    const before = previous?.[id];
+    // Only entries missing from a dataset that was already known are new
+    const firstSeen = before ? before.firstSeen : previous && now;
+
+    return [id, {
+      name: record.name,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      ...(firstSeen !== undefined && { firstSeen }),
+    }];
+  }));
+}
+
+export const isNew = (entry: SeenEntry | undefined, badgeDays: number, now: number) =>
+  entry?.firstSeen !== undefined && now - entry.firstSeen < badgeDays * DAY;
+
+export const countChanges = ({ added, removed, relocated }: DatasetChanges) =>
+  added.length + removed.length + relocated.length;
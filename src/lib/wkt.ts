@@ -0,0 +1,131 @@
+import type { Geometry, Position } from 'geojson';
+
+export class WktError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WktError';
+  }
+}
+
+type WktType = 'POINT' | 'MULTIPOINT' | 'LINESTRING' | 'MULTILINESTRING' | 'POLYGON' | 'MULTIPOLYGON';
+
+const TYPES: WktType[] = ['POINT', 'MULTIPOINT', 'LINESTRING', 'MULTILINESTRING', 'POLYGON', 'MULTIPOLYGON'];
+
+// Splits WKT into words, numbers and punctuation
+function tokenize(wkt: string): string[] {
+  return wkt.match(/[A-Za-z]+|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[(),]|\S/g) ?? [];
+}
+
+class Reader {
+  private index = 0;
+
+  constructor(private readonly tokens: string[]) {}
+
+  peek(): string | undefined {
+    return this.tokens[this.index];
+  }
+
+  next(): string {
+    const token = this.tokens[this.index++];
+    if (token === undefined) throw new WktError('Unexpected end of WKT');
+    return token;
+  }
+
+  expect(token: string) {
+    const actual = this.next();
+    if (actual !== token) throw new WktError(`Expected "${token}" but found "${actual}"`);
+  }
+
+  done(): boolean {
+    return this.index >= this.tokens.length;
+  }
+}
+
+// Z and M ordinates are read and dropped; the map only needs longitude/latitude.
+// Some writers omit the Z/M tag, so the ordinate count isn't taken from it.
+function readPosition(reader: Reader): Position {
+  const values: number[] = [];
+  while (reader.peek() !== undefined && reader.peek() !== ',' && reader.peek() !== ')') {
+    const token = reader.next();
+    const value = Number(token);
+    if (!Number.isFinite(value)) throw new WktError(`Expected a number but found "${token}"`);
+    values.push(value);
+  }
+  if (values.length < 2 || values.length > 4) {
+    throw new WktError(`Expected 2 to 4 ordinates but found ${values.length}`);
+  }
+  return [values[0], values[1]];
+}
+
+function readList<T>(reader: Reader, readItem: () => T): T[] {
+  reader.expect('(');
+  const items = [readItem()];
+  while (reader.peek() === ',') {
+    reader.next();
+    items.push(readItem());
+  }
+  reader.expect(')');
+  return items;
+}
+
+function readPositions(reader: Reader): Position[] {
+  return readList(reader, () => readPosition(reader));
+}
+
+function readRings(reader: Reader): Position[][] {
+  return readList(reader, () => readPositions(reader));
+}
+
+export function parseWkt(wkt: string): Geometry {
+  // Drop an EWKT SRID prefix such as "SRID=4326;"
+  const reader = new Reader(tokenize(wkt.trim().replace(/^SRID=\d+;/i, '')));
+  const word = reader.next().toUpperCase();
+  // The dimension tag may be attached, as in POINTZ, or separate, as in POINT Z
+  const type = TYPES.find((candidate) => word === candidate || word === `${candidate}Z` || word === `${candidate}M` || word === `${candidate}ZM`);
+  if (!type) throw new WktError(`Unsupported geometry type "${word}"`);
+
+  const modifier = reader.peek()?.toUpperCase();
+  if (modifier === 'Z' || modifier === 'M' || modifier === 'ZM') reader.next();
+
+  if (reader.peek()?.toUpperCase() === 'EMPTY') {
+    throw new WktError(`${type} is empty`);
+  }
+
+  let geometry: Geometry;
+  switch (type) {
+    case 'POINT':
+      reader.expect('(');
+      geometry = { type: 'Point', coordinates: readPosition(reader) };
+      reader.expect(')');
+      break;
+    case 'MULTIPOINT':
+      // Both MULTIPOINT (1 2, 3 4) and MULTIPOINT ((1 2), (3 4)) are valid
+      geometry = {
+        type: 'MultiPoint',
+        coordinates: readList(reader, () => {
+          if (reader.peek() !== '(') return readPosition(reader);
+          reader.next();
+          const position = readPosition(reader);
+          reader.expect(')');
+          return position;
+        }),
+      };
+      break;
+    case 'LINESTRING':
+      geometry = { type: 'LineString', coordinates: readPositions(reader) };
+      break;
+    case 'MULTILINESTRING':
+      geometry = { type: 'MultiLineString', coordinates: readRings(reader) };
+      break;
+    case 'POLYGON':
+      geometry = { type: 'Polygon', coordinates: readRings(reader) };
+      break;
+    case 'MULTIPOLYGON':
+      geometry = { type: 'MultiPolygon', coordinates: readList(reader, () => readRings(reader)) };
+      break;
+  }
+
+  if (!reader.done()) throw new WktError(`Unexpected "${reader.next()}" after ${type}`);
+
+  return geometry;
+}
@@ -0,0 +1,53 @@
+export class XmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XmlError';
+  }
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// For record fields written into popup HTML, which may come from a user's
+// file. HTML 4 has no &apos;, so quotes use a numeric reference instead.
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function parseXml(text: string, rootName: string): Element {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new XmlError('File is not well-formed XML');
+  }
+
+  const root = document.documentElement;
+  if (root.localName !== rootName) {
+    throw new XmlError(`Expected a <${rootName}> document but found <${root.localName}>`);
+  }
+  return root;
+}
+
+// Direct children by local name, so namespaced and prefixed documents both work
+export function children(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter((child) => child.localName === name);
+}
+
+export function descendants(element: Element, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS('*', name));
+}
+
+export function childText(element: Element, name: string): string | undefined {
+  const text = children(element, name)[0]?.textContent?.trim();
+  return text || undefined;
+}
@@ -1,35 +1,182 @@
-import { useState } from 'react';
+import { useCallback, useMemo, useState, type DragEvent } from 'react';
+import { Upload } from 'lucide-react';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
 import { Header } from '@/components/Header';
-import { InteractiveMap } from '@/components/InteractiveMap';
+import { InteractiveMap, type MapFocus } from '@/components/InteractiveMap';
 import { MapControls } from '@/components/MapControls';
+import { WhatsNewPanel } from '@/components/WhatsNewPanel';
+import { useDatasets } from '@/hooks/use-datasets';
+import { toast } from '@/hooks/use-toast';
+import { useWhatsNew } from '@/hooks/use-whats-new';
+import { readCsvTable, type CsvTable } from '@/lib/csv-import';
+import { datasets, defaultVisibility, type DatasetDefinition } from '@/lib/datasets';
+import { downloadFile } from '@/lib/download';
+import type { ExportFormat } from '@/lib/exports';
+import { applyFilters, type FilterSelection } from '@/lib/filters';
+import type { HeatmapSelection, HeatmapSettings } from '@/lib/heatmap';
+import { importFile, isCsvFile } from '@/lib/imports';
+import { pairThemeParksWithParkruns } from '@/lib/proximity';
 
 const Index = () => {
-  const [showParkruns, setShowParkruns] = useState(true);
-  const [showThemeParks, setShowThemeParks] = useState(true);
-  const [parkrunCount, setParkrunCount] = useState(0);
-  const [themeParkCount, setThemeParkCount] = useState(0);
+  const [importedDatasets, setImportedDatasets] = useState<DatasetDefinition[]>([]);
+  const allDatasets = useMemo(() => [...datasets, ...importedDatasets], [importedDatasets]);
+  const [visibility, setVisibility] = useState(() => defaultVisibility(datasets));
+  const { records, reports } = useDatasets(allDatasets);
+  const [filters, setFilters] = useState<FilterSelection>({});
+  // What the map draws and exports; MapControls still offers every option
+  const filteredRecords = useMemo(
+    () => Object.fromEntries(
+      allDatasets
+        .filter((dataset) => records[dataset.id])
+        .map((dataset) => [dataset.id, applyFilters(dataset, records[dataset.id], filters)]),
+    ),
+    [allDatasets, records, filters],
+  );
+  // Only the parkruns on the map are suggested near a theme park, so every
+  // link leads to a marker
+  const nearbyParkruns = useMemo(
+    () => pairThemeParksWithParkruns(allDatasets.filter((dataset) => visibility[dataset.id]), filteredRecords),
+    [allDatasets, visibility, filteredRecords],
+  );
+  // CSVs waiting for their columns to be mapped, one dialog at a time
+  const [csvTables, setCsvTables] = useState<CsvTable[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [spiderfy, setSpiderfy] = useState(true);
+  const [clustering, setClustering] = useState(true);
+  const [heatmaps, setHeatmaps] = useState<HeatmapSelection>({});
+  const { changes, newRecords, badgeDays, setBadgeDays } = useWhatsNew(allDatasets, records);
+  const [focus, setFocus] = useState<MapFocus | null>(null);
+
+  const handleToggle = useCallback((datasetId: string) => {
+    setVisibility((current) => ({ ...current, [datasetId]: !current[datasetId] }));
+  }, []);
+
+  const handleFilterChange = useCallback((datasetId: string, filterId: string, value: string | undefined) => {
+    setFilters((current) => {
+      const { [filterId]: _previous, ...others } = current[datasetId] ?? {};
+      return { ...current, [datasetId]: value === undefined ? others : { ...others, [filterId]: value } };
+    });
+  }, []);
+
+  const handleHeatmapChange = useCallback((datasetId: string, settings: HeatmapSettings | undefined) => {
+    setHeatmaps((current) => {
+      const { [datasetId]: _previous, ...others } = current;
+      return settings ? { ...others, [datasetId]: settings } : others;
+    });
+  }, []);
+
+  // A fresh object each time, so the map flies back even to the same place
+  const handleFocus = useCallback(({ latitude, longitude }: MapFocus) => {
+    setFocus({ latitude, longitude });
+  }, []);
+
+  const addDatasets = useCallback((added: DatasetDefinition[]) => {
+    setImportedDatasets((current) => [...current, ...added]);
+    setVisibility((current) => ({ ...current, ...defaultVisibility(added) }));
+  }, []);
+
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      if (isCsvFile(file)) {
+        const table = readCsvTable(file.name, await file.text());
+        setCsvTables((current) => [...current, table]);
+      } else {
+        addDatasets(await importFile(file));
+      }
+    } catch (error) {
+      toast({
+        title: `Could not import ${file.name}`,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  }, [addDatasets]);
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    Array.from(event.dataTransfer.files).forEach(handleImport);
+  };
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    const visible = allDatasets
+      .filter((dataset) => visibility[dataset.id])
+      .map((dataset) => ({ dataset, records: filteredRecords[dataset.id] ?? [] }));
+
+    downloadFile(`parkrun-theme-map.${format.extension}`, format.serialize(visible), format.mimeType);
+  }, [allDatasets, visibility, filteredRecords]);
 
   return (
     <div className="relative min-h-screen bg-gradient-hero overflow-hidden">
       <Header />
       
-      <main className="relative">
+      <main
+        className="relative"
+        onDragOver={handleDragOver}
+        onDragLeave={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node)) setDragging(false);
+        }}
+        onDrop={handleDrop}
+      >
         <InteractiveMap 
-          showParkruns={showParkruns}
-          showThemeParks={showThemeParks}
-          onParkrunCountChange={setParkrunCount}
-          onThemeParkCountChange={setThemeParkCount}
+          datasets={allDatasets}
+          visibility={visibility}
+          records={filteredRecords}
+          spiderfy={spiderfy}
+          clustering={clustering}
+          newRecords={newRecords}
+          heatmaps={heatmaps}
+          nearbyParkruns={nearbyParkruns}
+          focus={focus}
         />
         
         <MapControls
-          showParkruns={showParkruns}
-          showThemeParks={showThemeParks}
-          onToggleParkruns={() => setShowParkruns(!showParkruns)}
-          onToggleThemeParks={() => setShowThemeParks(!showThemeParks)}
-          parkrunCount={parkrunCount}
-          themeParkCount={themeParkCount}
+          datasets={allDatasets}
+          visibility={visibility}
+          reports={reports}
+          records={records}
+          filters={filters}
+          heatmaps={heatmaps}
+          spiderfy={spiderfy}
+          clustering={clustering}
+          onToggle={handleToggle}
+          onFilterChange={handleFilterChange}
+          onHeatmapChange={handleHeatmapChange}
+          onSpiderfyChange={setSpiderfy}
+          onClusteringChange={setClustering}
+          onImport={handleImport}
+          onExport={handleExport}
         />
+
+        <WhatsNewPanel
+          datasets={allDatasets}
+          changes={changes}
+          badgeDays={badgeDays}
+          onBadgeDaysChange={setBadgeDays}
+          onFocus={handleFocus}
+        />
+
+        {dragging && (
+          <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center bg-primary/10 border-4 border-dashed border-primary">
+            <div className="flex items-center gap-2 rounded-lg bg-white/90 px-6 py-4 text-lg font-semibold text-foreground shadow-glass">
+              <Upload className="w-5 h-5" />
+              Drop a CSV, GeoJSON, KML or GPX file to add a layer
+            </div>
+          </div>
+        )}
       </main>
+
+      <CsvImportDialog
+        table={csvTables[0] ?? null}
+        onOpenChange={(open) => !open && setCsvTables((current) => current.slice(1))}
+        onImport={(dataset) => addDatasets([dataset])}
+      />
     </div>
   );
 };
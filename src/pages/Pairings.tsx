@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Download, FerrisWheel } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useDatasets } from '@/hooks/use-datasets';
+import { datasets, EVENT_TYPE_LABELS, themeParkDataset } from '@/lib/datasets';
+import { downloadFile } from '@/lib/download';
+import { formatDistance } from '@/lib/geometry';
+import {
+  findPairings,
+  PAIRING_DISTANCE_RANGE,
+  pairingsToCsv,
+  sortPairings,
+  type PairingColumn,
+  type PairingSort,
+} from '@/lib/pairings';
+import { DEFAULT_PAIRING_RADIUS_KM } from '@/lib/proximity';
+import type { EventType, ThemePark } from '@/lib/types';
+
+const ALL = 'all';
+
+const COLUMNS: { id: PairingColumn; label: string; numeric?: boolean }[] = [
+  { id: 'park', label: 'Theme park' },
+  { id: 'country', label: 'Country' },
+  { id: 'parkrun', label: 'Closest parkrun' },
+  { id: 'eventType', label: 'Event' },
+  { id: 'region', label: 'Region' },
+  { id: 'distance', label: 'Distance', numeric: true },
+];
+
+const EVENT_TYPE_OPTIONS: { value: EventType | typeof ALL; label: string }[] = [
+  { value: ALL, label: '5k and junior parkruns' },
+  { value: 'fiveK', label: '5k parkruns only' },
+  { value: 'junior', label: 'Junior parkruns only' },
+];
+
+// Every theme park next to the parkrun closest to it, for planning a
+// parkrun around a day out
+const Pairings = () => {
+  const { records, errors } = useDatasets(datasets);
+  const [maxDistanceKm, setMaxDistanceKm] = useState(DEFAULT_PAIRING_RADIUS_KM);
+  const [eventType, setEventType] = useState<EventType>();
+  const [country, setCountry] = useState<string>();
+  const [sort, setSort] = useState<PairingSort>({ column: 'distance', descending: false });
+  const failed = datasets.filter((dataset) => errors[dataset.id]);
+  const loading = datasets.some((dataset) => !records[dataset.id] && !errors[dataset.id]);
+  const emptyMessage = loading
+    ? 'Loading theme parks and parkruns…'
+    : failed.length > 0
+      ? 'No pairings could be made from the data that loaded.'
+      : `No theme park has a parkrun within ${maxDistanceKm} km.`;
+
+  const countries = useMemo(
+    () => [...new Set(((records[themeParkDataset.id] ?? []) as ThemePark[]).map((park) => park.country))]
+      .sort((a, b) => a.localeCompare(b)),
+    [records],
+  );
+  const pairings = useMemo(
+    () => sortPairings(findPairings(datasets, records, { maxDistanceKm, eventType, country }), sort),
+    [records, maxDistanceKm, eventType, country, sort],
+  );
+
+  // A second click on the sorted column flips its order
+  const handleSort = (column: PairingColumn) => {
+    setSort((current) => ({ column, descending: current.column === column && !current.descending }));
+  };
+
+  const handleExport = () => {
+    downloadFile('parkrun-theme-park-pairings.csv', pairingsToCsv(pairings), 'text/csv');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto space-y-4 px-4 py-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <FerrisWheel className="w-8 h-8 text-primary" />
+            <h1 className="text-2xl font-bold text-foreground">Parkrun & Theme Park Pairings</h1>
+          </div>
+          <Button variant="glass" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4" />
+              Back to the map
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="flex flex-wrap items-end gap-4 p-4 shadow-glass bg-white/90">
+          <div className="w-56 space-y-2">
+            <Label className="text-xs">Within {maxDistanceKm} km</Label>
+            <Slider
+              {...PAIRING_DISTANCE_RANGE}
+              aria-label="Maximum distance"
+              value={[maxDistanceKm]}
+              onValueChange={([distance]) => setMaxDistanceKm(distance)}
+            />
+          </div>
+
+          <div className="w-52 space-y-1">
+            <Label htmlFor="event-type" className="text-xs">Events</Label>
+            <Select
+              value={eventType ?? ALL}
+              onValueChange={(value) => setEventType(value === ALL ? undefined : value as EventType)}
+            >
+              <SelectTrigger id="event-type" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EVENT_TYPE_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="w-52 space-y-1">
+            <Label htmlFor="country" className="text-xs">Theme park country</Label>
+            <Select value={country ?? ALL} onValueChange={(value) => setCountry(value === ALL ? undefined : value)}>
+              <SelectTrigger id="country" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All countries</SelectItem>
+                {countries.map((option) => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button variant="outline" size="sm" className="ml-auto gap-2" disabled={pairings.length === 0} onClick={handleExport}>
+            <Download className="w-4 h-4" />
+            Export CSV
+          </Button>
+        </Card>
+
+        {failed.length > 0 && (
+          <p className="text-sm text-destructive">
+            Could not load {failed.map((dataset) => dataset.label.toLowerCase()).join(' or ')}, so they're left out
+            of the pairings. {failed.map((dataset) => errors[dataset.id].message).join('. ')}
+          </p>
+        )}
+
+        <Card className="shadow-glass bg-white/90">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(({ id, label, numeric }) => {
+                  const SortIcon = sort.column !== id ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+
+                  return (
+                    <TableHead
+                      key={id}
+                      className={numeric ? 'text-right' : undefined}
+                      aria-sort={sort.column !== id ? 'none' : sort.descending ? 'descending' : 'ascending'}
+                    >
+                      <Button variant="ghost" size="sm" className="-mx-3 gap-1" onClick={() => handleSort(id)}>
+                        {label}
+                        <SortIcon className="w-3 h-3" />
+                      </Button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pairings.map(({ park, parkrun, distanceKm }) => (
+                <TableRow key={`${park.id}:${parkrun.id}`}>
+                  <TableCell className="font-medium">{park.name}</TableCell>
+                  <TableCell>{park.country}</TableCell>
+                  <TableCell>{parkrun.name}</TableCell>
+                  <TableCell>{EVENT_TYPE_LABELS[parkrun.eventType]}</TableCell>
+                  <TableCell>{parkrun.region}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatDistance(distanceKm)}</TableCell>
+                </TableRow>
+              ))}
+              {pairings.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={COLUMNS.length} className="text-center text-muted-foreground">
+                    {emptyMessage}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Pairings;